@@ -3,6 +3,7 @@ import express from "express"
 import compression from "compression"
 import path from "node:path"
 import fs from "node:fs"
+import { WebSocketServer } from "ws"
 
 const app = express()
 const PORT = process.env.PORT || 4443
@@ -15,9 +16,94 @@ app.use((req, res, next) => {
 })
 
 app.use(compression())
+
+// ✅ Analytics receiver (src/analytics.ts batches): one JSON line per batch in .analytics/<day>.ndjson
+// (a dot-directory, so express.static below never serves it)
+const ANALYTICS_DIR = process.env.ANALYTICS_DIR || ".analytics"
+app.post("/analytics", express.json({ limit: "1mb", type: ["application/json", "text/plain"] }), (req, res) => {
+  const b = req.body
+  if (!b || typeof b.session !== "string" || !Array.isArray(b.samples) || !Array.isArray(b.events)) {
+    return res.status(400).json({ error: "expected { session, seq, samples[], events[] }" })
+  }
+  const line = JSON.stringify({ receivedAt: new Date().toISOString(), ...b }) + "\n"
+  const file = path.join(ANALYTICS_DIR, `${new Date().toISOString().slice(0, 10)}.ndjson`)
+  fs.promises.mkdir(ANALYTICS_DIR, { recursive: true })
+    .then(() => fs.promises.appendFile(file, line))
+    .then(() => {
+      console.log(`analytics: session ${b.session.slice(0, 8)} #${b.seq} (${b.samples.length} samples, ${b.events.length} events)`)
+      res.status(204).end()
+    })
+    .catch((e) => { console.error("analytics write failed", e); res.status(500).end() })
+})
+
 app.use(express.static(".", { extensions: ["html"] }))
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Local dev server: http://localhost:${PORT}`)
   console.log(`Header: Permissions-Policy: xr-spatial-tracking=(self), fullscreen=(self)`)
+  console.log(`Multiplayer relay: ws://localhost:${PORT}/multiplayer`)
+})
+
+// ✅ Co-presence relay (src/multiplayer.ts): rooms of clients, poses fanned out to the rest of the room
+const MAX_MESSAGE = 16 * 1024
+const MAX_ROOM = 32
+const rooms = new Map() // room -> { clients: Map<id, { ws, name }>, presenter: id | null }
+let nextId = 1
+
+const wss = new WebSocketServer({ server, path: "/multiplayer", maxPayload: MAX_MESSAGE })
+
+// same shape check as isPeerPose() in src/multiplayer.ts: clients use poses every frame
+const finiteTuple = (v, n) => Array.isArray(v) && v.length === n && v.every((x) => typeof x === "number" && Number.isFinite(x))
+const isPose = (v) => !!v && typeof v === "object" && finiteTuple(v.p, 3) && finiteTuple(v.q, 4)
+function validPose(p) {
+  return !!p && typeof p === "object" && finiteTuple(p.rig, 3) && isPose(p.head) &&
+    Array.isArray(p.hands) && p.hands.length <= 2 && p.hands.every((h) => h === null || isPose(h))
+}
+
+function broadcast(room, msg, except) {
+  const data = JSON.stringify(msg)
+  for (const [id, c] of room.clients) if (id !== except && c.ws.readyState === c.ws.OPEN) c.ws.send(data)
+}
+
+wss.on("connection", (ws) => {
+  const id = String(nextId++)
+  let room = null
+
+  ws.on("message", (data) => {
+    let msg
+    try { msg = JSON.parse(String(data)) } catch { return }
+    if (!msg || typeof msg !== "object") return
+
+    if (msg.t === "hello" && !room && typeof msg.room === "string" && msg.room) {
+      const key = msg.room.slice(0, 64)
+      const r = rooms.get(key) ?? { clients: new Map(), presenter: null }
+      if (r.clients.size >= MAX_ROOM) { ws.close(1013, "room full"); return }
+      rooms.set(key, r)
+      room = r
+      const name = String(msg.name ?? "Guest").slice(0, 40) || "Guest"
+      const peers = [...r.clients].map(([pid, c]) => ({ id: pid, name: c.name }))
+      r.clients.set(id, { ws, name })
+      ws.send(JSON.stringify({ t: "welcome", id, peers, presenter: r.presenter }))
+      broadcast(r, { t: "join", id, name }, id)
+      return
+    }
+    if (!room) return
+    if (msg.t === "pose" && validPose(msg.pose)) {
+      const { rig, head, hands, xr } = msg.pose
+      broadcast(room, { t: "pose", id, pose: { rig, head, hands, xr: !!xr } }, id)
+    } else if (msg.t === "present") {
+      const presenter = msg.on ? id : (room.presenter === id ? null : room.presenter)
+      if (presenter === room.presenter) return
+      room.presenter = presenter
+      broadcast(room, { t: "presenter", id: presenter })
+    }
+  })
+
+  ws.on("close", () => {
+    if (!room) return
+    room.clients.delete(id)
+    broadcast(room, { t: "leave", id })
+    if (room.presenter === id) { room.presenter = null; broadcast(room, { t: "presenter", id: null }) }
+    for (const [key, r] of rooms) if (r === room && r.clients.size === 0) rooms.delete(key)
+  })
 })
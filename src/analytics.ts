@@ -0,0 +1,322 @@
+// src/analytics.ts
+// Visit analytics: sampled trace (position, view direction, gazed surface), teleports / hotspot clicks / XR time,
+// aggregated into a floor heatmap and a "most viewed surfaces" overlay; exportable as JSON, optionally POSTed in batches.
+import * as THREE from 'three'
+
+const DEFAULT_SAMPLE_HZ = 2
+const DEFAULT_BATCH_SEC = 30
+const MAX_SAMPLES = 20000        // kept for export (~2.7 h at 2 Hz); aggregates keep counting past it
+const MAX_QUEUE = 5000           // unsent samples + events while the endpoint is down
+const HEAT_CELL_M = 0.5          // floor heatmap cell (m)
+const GAZE_CELL_M = 0.25         // gaze dwell cell (m)
+const MAX_GAZE_MARKS = 400
+const OVERLAY_REFRESH_SEC = 2
+
+export type Vec3T = [number, number, number]
+
+export type AnalyticsSample = {
+  t: number            // seconds since the session started
+  p: Vec3T             // rig floor point, model file coordinates
+  d: Vec3T             // view direction, model file axes
+  level: string | null
+  xr: 'vr' | 'ar' | null
+  g?: string           // gazed surface (mesh name)
+}
+
+export type AnalyticsEvent =
+  | { t: number; type: 'teleport'; from: Vec3T; to: Vec3T; smooth: boolean }
+  | { t: number; type: 'hotspot'; id: string }
+  | { t: number; type: 'xrstart'; mode: 'vr' | 'ar' }
+  | { t: number; type: 'xrend' }
+
+// distributive, so each event keeps its own fields
+type EventInput = AnalyticsEvent extends infer E ? (E extends AnalyticsEvent ? Omit<E, 't'> : never) : never
+
+export type AnalyticsSession = {
+  version: 1
+  id: string
+  scene?: string
+  startedAt: string    // ISO time
+  duration: number     // s
+  xrSeconds: number
+  samples: AnalyticsSample[]
+  events: AnalyticsEvent[]
+}
+
+// one POST body; `seq` counts batches per session
+export type AnalyticsBatch = {
+  session: string
+  scene?: string
+  startedAt: string
+  seq: number
+  samples: AnalyticsSample[]
+  events: AnalyticsEvent[]
+}
+
+export type AnalyticsSummary = {
+  duration: number
+  xrSeconds: number
+  samples: number
+  teleports: number
+  hotspotClicks: number
+  topSurfaces: { name: string; seconds: number }[] // most viewed first
+}
+
+export type AnalyticsOverlay = 'heatmap' | 'gaze'
+
+export type AnalyticsOptions = {
+  enabled?: boolean       // default true when the block is present
+  sampleHz?: number       // default 2
+  endpoint?: string       // POST batches (JSON) here; none = in-memory only
+  batchSeconds?: number   // default 30
+  scene?: string          // tag sent with the session
+}
+
+export type AnalyticsHost = {
+  sample: () => Omit<AnalyticsSample, 't' | 'g'> | null // null = skip (e.g. loading)
+  gaze: () => { point: Vec3T; normal: Vec3T; name: string } | null // model file coordinates / axes
+  overlayRoot: THREE.Object3D   // its local space is the model file's coordinates
+  metersPerUnit: number
+  currentLevel: () => string | null
+}
+
+export type Analytics = {
+  readonly overlays: AnalyticsOverlay[]
+  setOverlay: (kind: AnalyticsOverlay, on: boolean) => void
+  record: (e: EventInput) => void
+  update: (dt: number) => void
+  summary: () => AnalyticsSummary
+  exportSession: () => AnalyticsSession
+  flush: () => Promise<boolean> // false if the POST failed (the batch is kept for the next try)
+  dispose: () => void
+}
+
+// cold -> hot: blue, cyan, green, yellow, red
+function heatColor(k: number, out: THREE.Color) {
+  return out.setHSL((1 - THREE.MathUtils.clamp(k, 0, 1)) * 0.66, 1, 0.5)
+}
+
+const round = (n: number, d = 100) => Math.round(n * d) / d
+const roundV = (v: Vec3T, d = 100) => v.map((n) => round(n, d)) as Vec3T
+
+export function createAnalytics(host: AnalyticsHost, opts: AnalyticsOptions): Analytics {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `s${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+  const startedAt = new Date().toISOString()
+  const t0 = performance.now()
+  const now = () => round((performance.now() - t0) / 1000)
+  const sampleEvery = 1 / Math.max(0.1, opts.sampleHz ?? DEFAULT_SAMPLE_HZ)
+  const batchEvery = Math.max(1, opts.batchSeconds ?? DEFAULT_BATCH_SEC)
+  const heatCell = HEAT_CELL_M / host.metersPerUnit
+  const gazeCell = GAZE_CELL_M / host.metersPerUnit
+
+  const samples: AnalyticsSample[] = []
+  const events: AnalyticsEvent[] = []
+  let queue: { samples: AnalyticsSample[]; events: AnalyticsEvent[] } = { samples: [], events: [] }
+  let seq = 0
+  let sampleClock = 0, batchClock = 0, overlayClock = 0
+  let xrSince: number | null = null, xrSeconds = 0
+  let sampleCount = 0, teleports = 0, hotspotClicks = 0
+  let sending = false
+
+  // aggregates
+  const floor = new Map<string, { level: string | null; ix: number; iz: number; n: number }>()
+  const levelY = new Map<string | null, { sum: number; n: number }>()
+  const gaze = new Map<string, { sum: THREE.Vector3; normal: THREE.Vector3; seconds: number }>()
+  const surfaces = new Map<string, number>()
+
+  // ---- overlays
+  const overlays = new Set<AnalyticsOverlay>()
+  const heatCanvas = document.createElement('canvas')
+  const heatTex = new THREE.CanvasTexture(heatCanvas); heatTex.colorSpace = THREE.SRGBColorSpace
+  const heatMesh = new THREE.Mesh(
+    new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2),
+    new THREE.MeshBasicMaterial({ map: heatTex, transparent: true, opacity: 0.75, depthWrite: false, polygonOffset: true, polygonOffsetFactor: -2 })
+  )
+  heatMesh.name = 'AnalyticsHeatmap'
+  heatMesh.renderOrder = 5
+  heatMesh.visible = false
+  const disc = new THREE.CircleGeometry(gazeCell * 0.45, 16)
+  const gazeMesh = new THREE.InstancedMesh(disc, new THREE.MeshBasicMaterial({
+    transparent: true, opacity: 0.7, depthWrite: false, side: THREE.DoubleSide, polygonOffset: true, polygonOffsetFactor: -2,
+  }), MAX_GAZE_MARKS)
+  gazeMesh.name = 'AnalyticsGaze'
+  gazeMesh.renderOrder = 5
+  gazeMesh.count = 0
+  gazeMesh.visible = false
+  gazeMesh.frustumCulled = false
+  host.overlayRoot.add(heatMesh, gazeMesh)
+
+  function drawHeatmap() {
+    const level = host.currentLevel()
+    const cells = [...floor.values()].filter((c) => c.level === level)
+    if (cells.length === 0) { heatMesh.visible = false; return }
+    let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity, max = 0
+    for (const c of cells) {
+      minX = Math.min(minX, c.ix); maxX = Math.max(maxX, c.ix)
+      minZ = Math.min(minZ, c.iz); maxZ = Math.max(maxZ, c.iz)
+      max = Math.max(max, c.n)
+    }
+    // one texel per cell plus a transparent border, so linear filtering fades the edges
+    const w = maxX - minX + 3, h = maxZ - minZ + 3
+    heatCanvas.width = w; heatCanvas.height = h
+    const ctx = heatCanvas.getContext('2d')!
+    ctx.clearRect(0, 0, w, h)
+    const col = new THREE.Color()
+    for (const c of cells) {
+      const k = Math.sqrt(c.n / max) // sqrt: short stops stay visible next to long dwells
+      ctx.fillStyle = `#${heatColor(k, col).getHexString()}`
+      ctx.globalAlpha = 0.35 + 0.65 * k
+      ctx.fillRect(c.ix - minX + 1, c.iz - minZ + 1, 1, 1)
+    }
+    heatTex.dispose() // canvas size changed: re-upload
+    heatTex.needsUpdate = true
+    const y = levelY.get(level)
+    heatMesh.scale.set(w * heatCell, 1, h * heatCell)
+    heatMesh.position.set((minX - 1 + w / 2) * heatCell, (y ? y.sum / y.n : 0) + 0.02 / host.metersPerUnit, (minZ - 1 + h / 2) * heatCell)
+    heatMesh.visible = true
+  }
+
+  const _m = new THREE.Matrix4(), _q = new THREE.Quaternion(), _p = new THREE.Vector3(), _s = new THREE.Vector3()
+  const _z = new THREE.Vector3(0, 0, 1), _c = new THREE.Color()
+  function drawGaze() {
+    const top = [...gaze.values()].sort((a, b) => b.seconds - a.seconds).slice(0, MAX_GAZE_MARKS)
+    const max = top[0]?.seconds ?? 1
+    top.forEach((g, i) => {
+      const n = g.sum.clone().divideScalar(g.seconds) // dwell-weighted centre
+      _q.setFromUnitVectors(_z, _p.copy(g.normal).normalize())
+      n.addScaledVector(_p, 0.01 / host.metersPerUnit)
+      gazeMesh.setMatrixAt(i, _m.compose(n, _q, _s.setScalar(0.6 + 0.4 * g.seconds / max)))
+      gazeMesh.setColorAt(i, heatColor(g.seconds / max, _c))
+    })
+    gazeMesh.count = top.length
+    gazeMesh.instanceMatrix.needsUpdate = true
+    if (gazeMesh.instanceColor) gazeMesh.instanceColor.needsUpdate = true
+    gazeMesh.visible = top.length > 0
+  }
+
+  function refreshOverlays() {
+    if (overlays.has('heatmap')) drawHeatmap(); else heatMesh.visible = false
+    if (overlays.has('gaze')) drawGaze(); else gazeMesh.visible = false
+  }
+
+  // ---- recording
+  function push<T>(list: T[], item: T, cap: number) {
+    list.push(item)
+    if (list.length > cap) list.splice(0, list.length - cap)
+  }
+
+  function takeSample(dt: number) {
+    const s = host.sample()
+    if (!s) return
+    const g = host.gaze()
+    const sample: AnalyticsSample = { t: now(), p: roundV(s.p), d: roundV(s.d, 1000), level: s.level, xr: s.xr }
+    if (g) sample.g = g.name
+    push(samples, sample, MAX_SAMPLES)
+    if (opts.endpoint) push(queue.samples, sample, MAX_QUEUE)
+    sampleCount++
+
+    const ix = Math.floor(s.p[0] / heatCell), iz = Math.floor(s.p[2] / heatCell)
+    const key = `${s.level}|${ix}|${iz}`
+    const cell = floor.get(key)
+    if (cell) cell.n++
+    else floor.set(key, { level: s.level, ix, iz, n: 1 })
+    const ly = levelY.get(s.level) ?? { sum: 0, n: 0 }
+    ly.sum += s.p[1]; ly.n++
+    levelY.set(s.level, ly)
+
+    if (g) {
+      const gk = g.point.map((v) => Math.floor(v / gazeCell)).join('|')
+      const cellG = gaze.get(gk) ?? { sum: new THREE.Vector3(), normal: new THREE.Vector3(), seconds: 0 }
+      cellG.sum.add(_p.fromArray(g.point).multiplyScalar(dt))
+      cellG.normal.add(_p.fromArray(g.normal).multiplyScalar(dt))
+      cellG.seconds += dt
+      gaze.set(gk, cellG)
+      surfaces.set(g.name, (surfaces.get(g.name) ?? 0) + dt)
+    }
+  }
+
+  function record(e: EventInput) {
+    const ev = { ...e, t: now() } as AnalyticsEvent
+    if (ev.type === 'teleport') { ev.from = roundV(ev.from); ev.to = roundV(ev.to); teleports++ }
+    else if (ev.type === 'hotspot') hotspotClicks++
+    else if (ev.type === 'xrstart') xrSince = ev.t
+    else if (ev.type === 'xrend' && xrSince !== null) { xrSeconds += ev.t - xrSince; xrSince = null }
+    push(events, ev, MAX_SAMPLES)
+    if (opts.endpoint) push(queue.events, ev, MAX_QUEUE)
+  }
+
+  function takeBatch(): AnalyticsBatch | null {
+    if (queue.samples.length === 0 && queue.events.length === 0) return null
+    const batch = { session: id, scene: opts.scene, startedAt, seq: seq++, ...queue }
+    queue = { samples: [], events: [] }
+    return batch
+  }
+
+  // failed batch goes back to the front of the queue
+  function requeue(b: AnalyticsBatch) {
+    queue = { samples: [...b.samples, ...queue.samples].slice(-MAX_QUEUE), events: [...b.events, ...queue.events].slice(-MAX_QUEUE) }
+  }
+
+  async function flush() {
+    if (!opts.endpoint || sending) return true
+    const batch = takeBatch()
+    if (!batch) return true
+    sending = true
+    try {
+      const res = await fetch(opts.endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(batch), keepalive: true })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      return true
+    } catch (e) {
+      console.warn('[viewer] analytics upload failed (will retry)', e)
+      requeue(batch)
+      return false
+    } finally {
+      sending = false
+    }
+  }
+
+  // page going away: beacon whatever is left (fetch may be cancelled)
+  const listeners = new AbortController()
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'hidden' || !opts.endpoint) return
+    const batch = takeBatch()
+    if (batch && !navigator.sendBeacon?.(opts.endpoint, new Blob([JSON.stringify(batch)], { type: 'application/json' }))) requeue(batch)
+  }, { signal: listeners.signal })
+
+  return {
+    get overlays() { return [...overlays] },
+    setOverlay: (kind, on) => {
+      if (on) overlays.add(kind); else overlays.delete(kind)
+      refreshOverlays()
+    },
+    record,
+    update: (dt) => {
+      if (document.visibilityState === 'hidden') return
+      sampleClock += dt
+      if (sampleClock >= sampleEvery) { takeSample(sampleClock); sampleClock = 0 }
+      if (opts.endpoint && (batchClock += dt) >= batchEvery) { batchClock = 0; void flush() }
+      if (overlays.size && (overlayClock += dt) >= OVERLAY_REFRESH_SEC) { overlayClock = 0; refreshOverlays() }
+    },
+    summary: () => ({
+      duration: now(),
+      xrSeconds: round(xrSeconds + (xrSince !== null ? now() - xrSince : 0)),
+      samples: sampleCount,
+      teleports,
+      hotspotClicks,
+      topSurfaces: [...surfaces].sort((a, b) => b[1] - a[1]).slice(0, 10).map(([name, s]) => ({ name, seconds: round(s, 10) })),
+    }),
+    exportSession: () => ({
+      version: 1, id, scene: opts.scene, startedAt, duration: now(),
+      xrSeconds: round(xrSeconds + (xrSince !== null ? now() - xrSince : 0)),
+      samples: [...samples], events: [...events],
+    }),
+    flush,
+    dispose: () => {
+      listeners.abort()
+      void flush()
+      host.overlayRoot.remove(heatMesh, gazeMesh)
+      heatMesh.geometry.dispose(); heatMesh.material.dispose(); heatTex.dispose()
+      disc.dispose(); (gazeMesh.material as THREE.Material).dispose(); gazeMesh.dispose()
+    },
+  }
+}
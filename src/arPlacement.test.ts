@@ -0,0 +1,114 @@
+// src/arPlacement.test.ts
+// AR placement driven by a mocked XR session / frame (the structural ARSessionLike / ARFrameLike types).
+import { describe, expect, it, vi } from 'vitest'
+import * as THREE from 'three'
+import { createARPlacement, type ARFrameLike, type ARPlacementHost, type ARPlacementStatus, type ARSessionLike } from './arPlacement'
+
+function mockHost(overrides: Partial<ARPlacementHost> = {}) {
+  let scale = 0.5
+  const changes: ARPlacementStatus[] = []
+  const ray = new THREE.Ray(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, -1, -1).normalize())
+  const host: ARPlacementHost = {
+    world: new THREE.Group(),
+    followers: () => [],
+    frame: new THREE.Group(),
+    viewRay: () => ray,
+    getScale: () => scale,
+    setScale: (s) => { scale = s },
+    lifeSizeScale: () => 1,
+    anchor: () => new THREE.Vector3(),
+    onChange: (s) => changes.push(s),
+    onError: vi.fn(),
+    ...overrides,
+  }
+  return { host, changes, getScale: () => scale }
+}
+
+function mockSession(withHitTest = true) {
+  const source = { cancel: vi.fn() }
+  const session: ARSessionLike = {
+    requestReferenceSpace: vi.fn(async () => 'viewer-space'),
+    requestHitTestSource: withHitTest ? vi.fn(async () => source) : undefined,
+  }
+  return { session, source }
+}
+
+// one hit-test result at `point` (pose in the reference space = the host frame's local space)
+function mockFrame(point: THREE.Vector3 | null): ARFrameLike {
+  const matrix = point ? new THREE.Matrix4().makeTranslation(point.x, point.y, point.z).elements : null
+  return { getHitTestResults: () => (matrix ? [{ getPose: () => ({ transform: { matrix } }) }] : []) }
+}
+
+const position = (o: THREE.Object3D) => new THREE.Vector3().setFromMatrixPosition(o.matrix)
+
+describe('createARPlacement', () => {
+  it('hides the world until a tap places it at the hit-test reticle, facing the viewer', async () => {
+    const { host, changes } = mockHost()
+    const ar = createARPlacement(host)
+    const { session } = mockSession()
+    await ar.start(session)
+    expect(host.world.visible).toBe(false)
+    expect(ar.select()).toBe(false) // no reticle yet
+
+    const hit = new THREE.Vector3(1, 0, -2)
+    ar.update(mockFrame(hit), 'local-space')
+    expect(ar.reticle.visible).toBe(true)
+    expect(position(ar.reticle).toArray()).toEqual(hit.toArray())
+
+    expect(ar.select()).toBe(true)
+    expect(host.world.visible).toBe(true)
+    expect(host.world.position.toArray()).toEqual(hit.toArray())
+    expect(new THREE.Euler().setFromQuaternion(host.world.quaternion, 'YXZ').y).toBeCloseTo(Math.atan2(-1, 2))
+    expect(changes[changes.length - 1]).toMatchObject({ active: true, placed: true })
+  })
+
+  it('falls back to a guessed floor plane without hit-test', async () => {
+    const { host } = mockHost()
+    const ar = createARPlacement(host)
+    await ar.start(mockSession(false).session)
+    expect(host.onError).toHaveBeenCalledOnce()
+    ar.update(null, null)
+    expect(position(ar.reticle).toArray().map((v) => Number(v.toFixed(3)))).toEqual([0, -1.4, -1.4])
+    expect(ar.select()).toBe(true)
+  })
+
+  it('reports a refused hit-test and still places on the floor plane', async () => {
+    const { host } = mockHost()
+    const ar = createARPlacement(host)
+    const refused = new Error('NotSupportedError')
+    await ar.start({ requestReferenceSpace: vi.fn(async () => { throw refused }) })
+    expect(host.onError).toHaveBeenCalledWith(refused)
+    ar.update(null, null)
+    expect(ar.select()).toBe(true)
+  })
+
+  it('pinch scales and rotates the placed model and swallows the select that ends it', async () => {
+    const { host, getScale } = mockHost()
+    const ar = createARPlacement(host)
+    await ar.start(mockSession().session)
+    ar.update(mockFrame(new THREE.Vector3(0, 0, -1)), null)
+    ar.select()
+
+    ar.pointers([new THREE.Vector3(-0.1, 0, 0), new THREE.Vector3(0.1, 0, 0)])
+    ar.pointers([new THREE.Vector3(-0.2, 0, 0), new THREE.Vector3(0.2, 0, 0)])
+    expect(getScale()).toBeCloseTo(1)
+    ar.pointers([new THREE.Vector3(0, 0, -0.2), new THREE.Vector3(0, 0, 0.2)]) // quarter turn
+    expect(new THREE.Euler().setFromQuaternion(host.world.quaternion, 'YXZ').y).toBeCloseTo(-Math.PI / 2)
+    expect(ar.select()).toBe(false)
+    ar.pointers([])
+  })
+
+  it('life-size mode uses 1:1 scale; ending restores the scale and cancels hit-test', async () => {
+    const { host, getScale } = mockHost()
+    const ar = createARPlacement(host)
+    ar.setMode('lifeSize')
+    const { session, source } = mockSession()
+    await ar.start(session)
+    expect(getScale()).toBe(1)
+    ar.end()
+    expect(source.cancel).toHaveBeenCalled()
+    expect(getScale()).toBe(0.5)
+    expect(host.world.visible).toBe(true)
+    expect(ar.status).toMatchObject({ active: false, placed: false, mode: 'lifeSize' })
+  })
+})
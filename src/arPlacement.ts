@@ -0,0 +1,210 @@
+// src/arPlacement.ts
+// AR placement: hit-test reticle, tap to place the world, two-pointer pinch to scale/rotate, tabletop or life-size.
+// XR objects are structural (ARSessionLike / ARFrameLike) so a mocked session can drive it.
+import * as THREE from 'three'
+
+const RETICLE_RADIUS = 0.08  // m
+const FALLBACK_DIST = 1.5    // no hit-test: reticle this far ahead on the floor plane (m)
+const FALLBACK_FLOOR = 1.4   // ARButton uses a 'local' space (origin at the device): assume the floor this far below
+const PINCH_MIN_DIST = 0.005 // ignore pinches starting closer than this (m, near-plane ray origins on phones)
+
+export type ARPlacementMode = 'tabletop' | 'lifeSize'
+
+export type ARHitTestSourceLike = { cancel: () => void }
+export type ARPoseLike = { transform: { matrix: ArrayLike<number> } }
+// method syntax, so the real XRSession / XRFrame (XRSpace parameters) pass as-is
+export type ARSessionLike = {
+  requestReferenceSpace(type: 'viewer'): Promise<unknown>
+  requestHitTestSource?(opts: { space: unknown }): Promise<ARHitTestSourceLike> | undefined
+}
+export type ARFrameLike = {
+  getHitTestResults(source: ARHitTestSourceLike): ArrayLike<{ getPose(space: unknown): ARPoseLike | null | undefined }>
+}
+
+export type ARPlacementHost = {
+  world: THREE.Object3D                 // placed: position + yaw (its scale is the model scale)
+  followers: () => THREE.Object3D[]     // kept on the world's position/rotation (e.g. the baked navmesh)
+  frame: THREE.Object3D                 // node the XR reference space is attached to (rig)
+  viewRay: () => THREE.Ray              // headset/phone camera (world), for facing and the no-hit-test fallback
+  getScale: () => number
+  setScale: (s: number) => void         // setModelScale; calls relayout() back while placed
+  lifeSizeScale: () => number           // world scale at which the model is 1:1
+  anchor: (mode: ARPlacementMode) => THREE.Vector3 // model point (world-local, unscaled) that sits on the surface
+  onChange: (s: ARPlacementStatus) => void
+  onError: (e: unknown) => void         // hit-test refused / unavailable (placement falls back to the floor plane)
+}
+
+export type ARPlacementStatus = { active: boolean; placed: boolean; mode: ARPlacementMode; scale: number }
+
+export type ARPlacement = {
+  reticle: THREE.Mesh
+  readonly status: ARPlacementStatus
+  start: (session: ARSessionLike) => Promise<void>
+  end: () => void
+  update: (frame: ARFrameLike | null, refSpace: unknown) => void // per frame while active
+  select: () => boolean             // place at the reticle; false if swallowed (pinch, no surface)
+  pointers: (points: THREE.Vector3[]) => void // world positions of the pressed pointers, every frame
+  setMode: (mode: ARPlacementMode) => void
+  reset: () => void                 // back to the reticle
+  relayout: () => void              // after a scale change
+  dispose: () => void
+}
+
+export function createARPlacement(host: ARPlacementHost): ARPlacement {
+  const reticle = new THREE.Mesh(
+    new THREE.RingGeometry(RETICLE_RADIUS * 0.75, RETICLE_RADIUS, 40).rotateX(-Math.PI / 2),
+    new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.9, depthTest: false })
+  )
+  reticle.name = 'ARReticle'
+  reticle.renderOrder = 1002
+  reticle.matrixAutoUpdate = false
+  reticle.visible = false
+
+  let active = false
+  let mode: ARPlacementMode = 'tabletop'
+  let hitSource: ARHitTestSourceLike | null = null
+  let request = 0
+  let placed: { point: THREE.Vector3; yaw: number } | null = null
+  let tabletopScale = 1
+  const saved = { scale: 1 }
+  let pinch: { dist: number; angle: number; scale: number; yaw: number } | null = null
+  let pinched = false // swallow the select that ends a pinch
+
+  const _m = new THREE.Matrix4(), _p = new THREE.Vector3(), _q = new THREE.Quaternion(), _s = new THREE.Vector3()
+  const _plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0)
+  const _yAxis = new THREE.Vector3(0, 1, 0)
+
+  const status = (): ARPlacementStatus => ({ active, placed: !!placed, mode, scale: host.getScale() })
+  const notify = () => host.onChange(status())
+
+  // world position = surface point - R(yaw) * anchor * scale
+  function relayout() {
+    const { world } = host
+    if (!placed) {
+      world.position.set(0, 0, 0); world.quaternion.identity()
+    } else {
+      world.quaternion.setFromAxisAngle(_yAxis, placed.yaw)
+      world.position.copy(host.anchor(mode)).multiplyScalar(host.getScale()).applyQuaternion(world.quaternion).negate().add(placed.point)
+    }
+    world.visible = !active || !!placed // hidden until placed
+    world.updateMatrixWorld(true)
+    for (const f of host.followers()) {
+      f.position.copy(world.position); f.quaternion.copy(world.quaternion)
+      f.updateMatrixWorld(true)
+    }
+  }
+
+  function place(point: THREE.Vector3) {
+    const eye = host.viewRay().origin
+    placed = { point: point.clone(), yaw: Math.atan2(eye.x - point.x, eye.z - point.z) } // model front (+z) faces the viewer
+    relayout()
+    notify()
+  }
+
+  // outside a session this only picks the mode the next one starts in
+  function setMode(m: ARPlacementMode) {
+    if (m === mode) return
+    if (active && mode === 'tabletop') tabletopScale = host.getScale()
+    mode = m
+    if (active) {
+      host.setScale(m === 'lifeSize' ? host.lifeSizeScale() : tabletopScale)
+      relayout()
+    }
+    notify()
+  }
+
+  return {
+    reticle,
+    get status() { return status() },
+    start: async (session) => {
+      const mine = ++request
+      active = true
+      placed = null; pinch = null; pinched = false
+      saved.scale = tabletopScale = host.getScale()
+      if (mode === 'lifeSize') host.setScale(host.lifeSizeScale())
+      relayout()
+      notify()
+      try {
+        const space = await session.requestReferenceSpace('viewer')
+        const source = await session.requestHitTestSource?.({ space })
+        if (mine !== request || !active) { source?.cancel(); return }
+        hitSource = source ?? null
+      } catch (e) {
+        if (mine !== request || !active) return
+        console.warn('[viewer] AR hit-test unavailable; placing on the floor plane', e)
+        host.onError(e)
+        return
+      }
+      if (!hitSource) {
+        console.warn('[viewer] AR hit-test not granted; placing on the floor plane')
+        host.onError(new Error('AR hit-test not granted'))
+      }
+    },
+    end: () => {
+      if (!active) return
+      request++
+      active = false
+      try { hitSource?.cancel() } catch {}
+      hitSource = null
+      placed = null; pinch = null
+      reticle.visible = false
+      host.setScale(saved.scale)
+      relayout()
+      notify()
+    },
+    update: (frame, refSpace) => {
+      if (!active) return
+      const pose = hitSource && frame ? frame.getHitTestResults(hitSource)[0]?.getPose(refSpace) : null
+      if (pose) {
+        // pose is in the reference space = the frame node's local space
+        host.frame.updateMatrixWorld()
+        _m.fromArray(pose.transform.matrix as number[]).premultiply(host.frame.matrixWorld)
+        reticle.matrix.copy(_m)
+        reticle.visible = true
+      } else if (!hitSource) {
+        // no hit-test: a guessed floor where the view ray meets it (or a step ahead when looking up)
+        const ray = host.viewRay()
+        const floorY = host.frame.getWorldPosition(_p).y - FALLBACK_FLOOR
+        _plane.constant = -floorY
+        if (!ray.intersectPlane(_plane, _p) || _p.distanceTo(ray.origin) > FALLBACK_DIST * 3) {
+          ray.at(FALLBACK_DIST, _p)
+          _p.y = floorY
+        }
+        reticle.matrix.makeTranslation(_p.x, _p.y, _p.z)
+        reticle.visible = true
+      } else {
+        reticle.visible = false
+      }
+      ;(reticle.material as THREE.MeshBasicMaterial).opacity = placed ? 0.35 : 0.9
+    },
+    select: () => {
+      if (!active) return false
+      if (pinched || pinch) return false
+      if (!reticle.visible) return false
+      reticle.matrix.decompose(_p, _q, _s)
+      place(_p)
+      return true
+    },
+    pointers: (points) => {
+      if (!active) return
+      if (points.length === 0) { pinched = false; pinch = null; return }
+      if (points.length !== 2 || !placed) { if (pinch) { pinch = null; notify() } return }
+      const dx = points[1].x - points[0].x, dz = points[1].z - points[0].z
+      const dist = points[0].distanceTo(points[1])
+      const angle = Math.atan2(dx, dz)
+      if (!pinch) {
+        if (dist < PINCH_MIN_DIST) return
+        pinch = { dist, angle, scale: host.getScale(), yaw: placed.yaw }
+        pinched = true
+        return
+      }
+      placed.yaw = pinch.yaw + (angle - pinch.angle)
+      if (mode === 'tabletop') host.setScale(pinch.scale * dist / pinch.dist) // life-size stays 1:1
+      relayout()
+    },
+    setMode,
+    reset: () => { placed = null; relayout(); notify() },
+    relayout,
+    dispose: () => { reticle.geometry.dispose(); (reticle.material as THREE.Material).dispose() },
+  }
+}
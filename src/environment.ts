@@ -0,0 +1,242 @@
+// src/environment.ts
+// Lighting presets: HDRI (rotated, PMREM-filtered and cached), exposure, backdrop and fill lights, cross-faded at runtime.
+import * as THREE from 'three'
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader'
+
+const ENV_SPHERE_RADIUS = 10 // inside fromScene's near/far (0.1..100)
+const DEFAULT_FADE_SEC = 0.6
+
+export type EnvironmentPreset = {
+  id: string
+  label?: string
+  hdri?: string | null          // equirectangular .hdr; none = fill lights only
+  exposure?: number             // tone mapping exposure, default 1
+  rotation?: number             // degrees about the vertical axis
+  background?: boolean | string // true = the HDRI (default), false = clear colour, '#rrggbb' = solid backdrop
+  backgroundBlur?: number       // 0..1
+  backgroundIntensity?: number  // default 1
+  lights?: number               // hemisphere + directional fill multiplier, default 1
+}
+
+export type EnvironmentHost = {
+  renderer: THREE.WebGLRenderer
+  scene: THREE.Scene
+  hemi: THREE.HemisphereLight
+  dir: THREE.DirectionalLight
+  progress: (e: ProgressEvent) => void
+  onError: (e: unknown) => void
+  onChange: (id: string | null) => void
+}
+
+export type EnvironmentControl = {
+  readonly presets: EnvironmentPreset[]
+  readonly current: string | null
+  readonly exposure: number
+  readonly backgroundOn: boolean
+  set: (preset: string | EnvironmentPreset, fadeSec?: number) => Promise<boolean>
+  setExposure: (ev: number) => void
+  setBackground: (on: boolean) => void
+  update: (dt: number) => void
+  dispose: () => void
+}
+
+// Resolved look of a preset (what the fade interpolates)
+type Look = {
+  env: THREE.WebGLRenderTarget | null
+  backdrop: 'hdri' | 'color' | 'none'
+  color: THREE.Color
+  exposure: number
+  blur: number
+  intensity: number
+  lights: number
+}
+
+const BLEND_VERT = /* glsl */`
+varying vec2 vUv;
+void main() { vUv = uv; gl_Position = vec4(position.xy, 0.0, 1.0); }`
+
+const BLEND_FRAG = /* glsl */`
+uniform sampler2D a;
+uniform sampler2D b;
+uniform bool hasA;
+uniform bool hasB;
+uniform float t;
+varying vec2 vUv;
+void main() {
+  vec4 ca = hasA ? texture2D(a, vUv) : vec4(0.0, 0.0, 0.0, 1.0);
+  vec4 cb = hasB ? texture2D(b, vUv) : vec4(0.0, 0.0, 0.0, 1.0);
+  gl_FragColor = mix(ca, cb, t);
+}`
+
+export function createEnvironment(host: EnvironmentHost, presets: EnvironmentPreset[]): EnvironmentControl {
+  const { renderer, scene } = host
+  const pmrem = new THREE.PMREMGenerator(renderer)
+  const baseHemi = host.hemi.intensity, baseDir = host.dir.intensity
+  const hdrCache = new Map<string, Promise<THREE.DataTexture>>()
+  const envCache = new Map<string, THREE.WebGLRenderTarget>() // `${url}|${rotation}` -> PMREM (switching back is instant)
+
+  let current: string | null = null
+  let backgroundOn = true
+  let exposureOverride: number | null = null
+  let look: Look | null = null
+  let fade: { from: Look; to: Look; t: number; sec: number } | null = null
+  let request = 0
+
+  // --- cross-fade pass: mixes two PMREMs texel by texel (fromScene output always has the same layout)
+  let blendRT: THREE.WebGLRenderTarget | null = null
+  const blendMat = new THREE.ShaderMaterial({
+    uniforms: { a: { value: null }, b: { value: null }, hasA: { value: false }, hasB: { value: false }, t: { value: 0 } },
+    vertexShader: BLEND_VERT, fragmentShader: BLEND_FRAG,
+    depthTest: false, depthWrite: false, blending: THREE.NoBlending,
+  })
+  const blendQuad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), blendMat)
+  blendQuad.frustumCulled = false
+  const blendScene = new THREE.Scene(); blendScene.add(blendQuad)
+  const blendCam = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+
+  // PMREM passes must not go through the XR camera
+  function offscreen(fn: () => void) {
+    const xr = renderer.xr.enabled, target = renderer.getRenderTarget()
+    renderer.xr.enabled = false
+    try { fn() } finally { renderer.xr.enabled = xr; renderer.setRenderTarget(target) }
+  }
+
+  function blend(a: THREE.WebGLRenderTarget | null, b: THREE.WebGLRenderTarget | null, t: number) {
+    const src = (a ?? b)!
+    if (!blendRT || blendRT.width !== src.width || blendRT.height !== src.height) {
+      blendRT?.dispose()
+      blendRT = new THREE.WebGLRenderTarget(src.width, src.height, {
+        magFilter: THREE.LinearFilter, minFilter: THREE.LinearFilter, generateMipmaps: false,
+        type: THREE.HalfFloatType, format: THREE.RGBAFormat, colorSpace: THREE.LinearSRGBColorSpace, depthBuffer: false,
+      })
+      blendRT.texture.mapping = THREE.CubeUVReflectionMapping
+      blendRT.texture.name = 'PMREM.cubeUv'
+    }
+    const u = blendMat.uniforms
+    u.a.value = a?.texture ?? null; u.hasA.value = !!a
+    u.b.value = b?.texture ?? null; u.hasB.value = !!b
+    u.t.value = t
+    const rt = blendRT
+    offscreen(() => { renderer.setRenderTarget(rt); renderer.render(blendScene, blendCam) })
+    return rt
+  }
+
+  function loadHDR(url: string) {
+    let p = hdrCache.get(url)
+    if (!p) {
+      p = new RGBELoader().loadAsync(url, host.progress) as Promise<THREE.DataTexture>
+      p.catch(() => hdrCache.delete(url)) // retry on the next request
+      hdrCache.set(url, p)
+    }
+    return p
+  }
+
+  // equirect on a sphere turned by `rotation`, rendered into a PMREM (r160 scenes cannot rotate the environment)
+  async function envFor(url: string, rotationDeg: number) {
+    const key = `${url}|${THREE.MathUtils.euclideanModulo(rotationDeg, 360)}`
+    const hit = envCache.get(key)
+    if (hit) return hit
+    const hdr = await loadHDR(url)
+    const sphere = new THREE.Mesh(
+      new THREE.SphereGeometry(ENV_SPHERE_RADIUS, 64, 32),
+      new THREE.MeshBasicMaterial({ map: hdr, side: THREE.DoubleSide })
+    )
+    sphere.scale.z = -1 // SphereGeometry's u runs the other way round from equirect lookups
+    sphere.rotation.y = THREE.MathUtils.degToRad(rotationDeg)
+    const src = new THREE.Scene(); src.add(sphere)
+    let rt!: THREE.WebGLRenderTarget
+    offscreen(() => { rt = pmrem.fromScene(src) })
+    sphere.geometry.dispose(); (sphere.material as THREE.Material).dispose()
+    hdr.dispose() // GPU copy only; the pixels stay cached for other rotations
+    envCache.set(key, rt)
+    return rt
+  }
+
+  async function resolve(p: EnvironmentPreset): Promise<Look> {
+    let env: THREE.WebGLRenderTarget | null = null
+    if (p.hdri) {
+      try { env = await envFor(p.hdri, p.rotation ?? 0) }
+      catch (e) { console.warn('[viewer] HDRI load failed (continuing)', e); host.onError(e) }
+    }
+    const bg = p.background ?? true
+    return {
+      env,
+      backdrop: typeof bg === 'string' ? 'color' : (bg && env ? 'hdri' : 'none'),
+      color: new THREE.Color(typeof bg === 'string' ? bg : 0x000000),
+      exposure: p.exposure ?? 1,
+      blur: THREE.MathUtils.clamp(p.backgroundBlur ?? 0, 0, 1),
+      intensity: p.backgroundIntensity ?? 1,
+      lights: p.lights ?? 1,
+    }
+  }
+
+  function show(from: Look | null, to: Look, k: number) {
+    const lerp = (a: number, b: number) => from ? a + (b - a) * k : b
+    const env = from && k < 1 && (from.env || to.env) ? blend(from.env, to.env, k) : to.env
+    scene.environment = env?.texture ?? null
+
+    // backdrops of different kinds swap halfway
+    const shown = from && k < 0.5 ? from : to
+    const envTex = from && k < 1 && from.backdrop === 'hdri' && to.backdrop === 'hdri' ? env : shown.env
+    if (!backgroundOn || shown.backdrop === 'none') scene.background = null
+    else if (shown.backdrop === 'color') {
+      const c = scene.background instanceof THREE.Color ? scene.background : new THREE.Color()
+      scene.background = from?.backdrop === 'color' && to.backdrop === 'color' ? c.lerpColors(from.color, to.color, k) : c.copy(shown.color)
+    } else scene.background = envTex?.texture ?? null
+
+    scene.backgroundBlurriness = lerp(from?.blur ?? 0, to.blur)
+    scene.backgroundIntensity = lerp(from?.intensity ?? 1, to.intensity)
+    renderer.toneMappingExposure = exposureOverride ?? lerp(from?.exposure ?? 1, to.exposure)
+    const lights = lerp(from?.lights ?? 1, to.lights)
+    host.hemi.intensity = baseHemi * lights
+    host.dir.intensity = baseDir * lights
+  }
+
+  async function set(preset: string | EnvironmentPreset, fadeSec = DEFAULT_FADE_SEC) {
+    const p = typeof preset === 'string' ? presets.find((x) => x.id === preset) : preset
+    if (!p) { console.warn(`[viewer] unknown environment preset "${preset}"`); return false }
+    const mine = ++request
+    const to = await resolve(p)
+    if (mine !== request) return false // superseded while loading
+    exposureOverride = null
+    current = p.id
+    if (fade) look = fade.to // jump the running fade to its end, then start the new one from there
+    if (look && fadeSec > 0) fade = { from: look, to, t: 0, sec: fadeSec }
+    else { fade = null; show(null, to, 1) }
+    look = to
+    host.onChange(current)
+    return true
+  }
+
+  return {
+    presets,
+    get current() { return current },
+    get exposure() { return exposureOverride ?? look?.exposure ?? renderer.toneMappingExposure }, // target, not mid-fade
+    get backgroundOn() { return backgroundOn },
+    set,
+    setExposure: (ev) => {
+      if (!isFinite(ev) || ev <= 0) return
+      exposureOverride = ev
+      renderer.toneMappingExposure = ev
+    },
+    setBackground: (on) => {
+      backgroundOn = on
+      if (look && !fade) show(null, look, 1)
+    },
+    update: (dt) => {
+      if (!fade) return
+      fade.t = Math.min(1, fade.t + dt / fade.sec)
+      const k = fade.t * fade.t * (3 - 2 * fade.t)
+      show(fade.from, fade.to, k)
+      if (fade.t >= 1) fade = null
+    },
+    dispose: () => {
+      scene.environment = null
+      if (scene.background instanceof THREE.Texture) scene.background = null
+      envCache.forEach((rt) => rt.dispose()); envCache.clear()
+      hdrCache.forEach((p) => p.then((t) => t.dispose(), () => {})); hdrCache.clear()
+      blendRT?.dispose(); blendMat.dispose(); blendQuad.geometry.dispose()
+      pmrem.dispose()
+    },
+  }
+}
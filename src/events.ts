@@ -0,0 +1,40 @@
+// src/events.ts
+// Minimal typed event emitter (payload types per event name).
+
+export type Listener<T> = (payload: T) => void
+
+export type Emitter<E> = {
+  on: <K extends keyof E>(type: K, fn: Listener<E[K]>) => () => void // returns an unsubscribe function
+  off: <K extends keyof E>(type: K, fn: Listener<E[K]>) => void
+  emit: <K extends keyof E>(type: K, payload: E[K]) => void
+  has: (type: keyof E) => boolean
+  clear: () => void
+}
+
+export function createEmitter<E>(): Emitter<E> {
+  const listeners = new Map<keyof E, Set<Listener<any>>>()
+
+  function off<K extends keyof E>(type: K, fn: Listener<E[K]>) {
+    listeners.get(type)?.delete(fn)
+  }
+
+  return {
+    on: (type, fn) => {
+      let set = listeners.get(type)
+      if (!set) listeners.set(type, (set = new Set()))
+      set.add(fn)
+      return () => off(type, fn)
+    },
+    off,
+    emit: (type, payload) => {
+      const set = listeners.get(type)
+      if (!set) return
+      // a throwing listener must not break the render loop or the other listeners
+      for (const fn of [...set]) {
+        try { fn(payload) } catch (e) { console.warn(`[viewer] "${String(type)}" listener failed`, e) }
+      }
+    },
+    has: (type) => (listeners.get(type)?.size ?? 0) > 0,
+    clear: () => listeners.clear(),
+  }
+}
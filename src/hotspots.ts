@@ -0,0 +1,124 @@
+// src/hotspots.ts
+import * as THREE from 'three'
+import type { Hotspot } from './viewer'
+
+// ---- look
+const MARKER_SIZE = 0.045   // fraction of the view height (sizeAttenuation off)
+const PANEL_W = 0.6         // VR info panel (m)
+const PANEL_H = 0.4
+const PANEL_TEX_W = 768
+const PANEL_TEX_H = 512
+
+function drawMarkerTexture() {
+  const c = document.createElement('canvas'); c.width = c.height = 128
+  const ctx = c.getContext('2d')!
+  ctx.fillStyle = 'rgba(15,17,22,0.85)'
+  ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 10
+  ctx.beginPath(); ctx.arc(64, 64, 54, 0, Math.PI * 2); ctx.fill(); ctx.stroke()
+  ctx.fillStyle = '#ffffff'
+  ctx.font = 'bold 72px Georgia, serif'
+  ctx.textAlign = 'center'; ctx.textBaseline = 'middle'
+  ctx.fillText('i', 64, 68)
+  const tex = new THREE.CanvasTexture(c); tex.colorSpace = THREE.SRGBColorSpace
+  return tex
+}
+
+export type HotspotMarkers = {
+  create: (h: Hotspot) => THREE.Sprite
+  dispose: () => void
+}
+
+// Marker sprites of one viewer; they share its marker texture, disposed with the viewer.
+export function createHotspotMarkers(): HotspotMarkers {
+  const tex = drawMarkerTexture()
+  return {
+    // constant screen-size sprite; `userData.hotspotId` links it back to its hotspot
+    create: (h) => {
+      const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: tex, sizeAttenuation: false, transparent: true }))
+      sprite.scale.set(MARKER_SIZE, MARKER_SIZE, 1)
+      sprite.renderOrder = 996
+      sprite.name = `Hotspot:${h.id}`
+      sprite.userData.hotspotId = h.id
+      return sprite
+    },
+    dispose: () => tex.dispose(),
+  }
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxW: number, lineH: number, maxLines: number) {
+  const words = text.split(/\s+/)
+  let line = ''
+  let lines = 0
+  for (let i = 0; i < words.length; i++) {
+    const test = line ? `${line} ${words[i]}` : words[i]
+    if (ctx.measureText(test).width > maxW && line) {
+      if (++lines === maxLines) { ctx.fillText(`${line}…`, x, y); return y + lineH }
+      ctx.fillText(line, x, y); y += lineH; line = words[i]
+    } else line = test
+  }
+  if (line) { ctx.fillText(line, x, y); y += lineH }
+  return y
+}
+
+export type HotspotPanel = {
+  object: THREE.Mesh
+  show: (h: Hotspot) => void
+  hide: () => void
+  dispose: () => void
+}
+
+// World-space info card for XR (title, description, optional image).
+export function createHotspotPanel(): HotspotPanel {
+  const c = document.createElement('canvas'); c.width = PANEL_TEX_W; c.height = PANEL_TEX_H
+  const ctx = c.getContext('2d')!
+  const tex = new THREE.CanvasTexture(c); tex.colorSpace = THREE.SRGBColorSpace
+  const object = new THREE.Mesh(
+    new THREE.PlaneGeometry(PANEL_W, PANEL_H),
+    new THREE.MeshBasicMaterial({ map: tex, transparent: true, depthTest: false, side: THREE.DoubleSide })
+  )
+  object.name = 'HotspotPanel'
+  object.renderOrder = 1000
+  object.visible = false
+  let shown: Hotspot | null = null
+
+  function draw(h: Hotspot, img?: HTMLImageElement) {
+    ctx.clearRect(0, 0, PANEL_TEX_W, PANEL_TEX_H)
+    ctx.fillStyle = 'rgba(15,17,22,0.92)'
+    ctx.beginPath(); ctx.roundRect(0, 0, PANEL_TEX_W, PANEL_TEX_H, 28); ctx.fill()
+    let y = 36
+    const pad = 36
+    if (img) {
+      const ih = 220, iw = Math.min(PANEL_TEX_W - pad * 2, img.width * ih / img.height)
+      ctx.drawImage(img, (PANEL_TEX_W - iw) / 2, y, iw, ih)
+      y += ih + 20
+    }
+    ctx.fillStyle = '#ffffff'
+    ctx.font = '700 40px system-ui, -apple-system, Segoe UI, Inter, Roboto, sans-serif'
+    ctx.textBaseline = 'top'
+    y = wrapText(ctx, h.title, pad, y, PANEL_TEX_W - pad * 2, 48, 2) + 8
+    if (h.description) {
+      ctx.fillStyle = '#cbd5e1'
+      ctx.font = '28px system-ui, -apple-system, Segoe UI, Inter, Roboto, sans-serif'
+      wrapText(ctx, h.description, pad, y, PANEL_TEX_W - pad * 2, 36, Math.max(1, Math.floor((PANEL_TEX_H - y - pad) / 36)))
+    }
+    tex.needsUpdate = true
+  }
+
+  return {
+    object,
+    show: (h) => {
+      shown = h
+      draw(h)
+      object.visible = true
+      if (h.imageUrl) {
+        const img = new Image()
+        img.crossOrigin = 'anonymous'
+        img.onload = () => { if (shown === h) draw(h, img) }
+        img.onerror = () => console.warn('[viewer] hotspot image failed', h.imageUrl)
+        img.src = h.imageUrl
+      }
+    },
+    hide: () => { shown = null; object.visible = false },
+    dispose: () => { tex.dispose(); object.geometry.dispose(); (object.material as THREE.Material).dispose() },
+  }
+}
@@ -0,0 +1,53 @@
+// src/levels.test.ts
+// Floor detection on a two-storey navmesh, baked with the model transform like loadNavmesh does.
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three'
+import { detectLevels, levelCentroids, levelForHeight, modelPlacement } from './levels'
+
+const STOREY = 3 // file units between the two floors
+
+// 10 × 10 walkable quad at height y (model-file units)
+function floorQuad(y: number) {
+  return new THREE.PlaneGeometry(10, 10).rotateX(-Math.PI / 2).translate(0, y, 0)
+}
+
+// model: two slabs and a roof; navmesh: the two floors, baked with the model's placement (as loadNavmesh does)
+function building(spawn: THREE.Vector3 | null) {
+  const root = new THREE.Group()
+  root.add(new THREE.Mesh(new THREE.BoxGeometry(10, STOREY * 2, 10).translate(0, STOREY, 0)))
+  if (spawn) {
+    const empty = new THREE.Object3D(); empty.name = 'SpawnPoint'; empty.position.copy(spawn)
+    root.add(empty)
+  }
+  const xform = modelPlacement(root)
+  const navmesh = [floorQuad(0), floorQuad(STOREY)].map((g) => new THREE.Mesh(g.applyMatrix4(xform)))
+  return { xform, navmesh, unitScale: new THREE.Vector3().setFromMatrixScale(xform).x }
+}
+
+describe('detectLevels', () => {
+  it('finds both floors of a model aligned to its SpawnPoint', () => {
+    const { navmesh, unitScale } = building(new THREE.Vector3(2, 0, 1))
+    expect(unitScale).toBeCloseTo(1)
+    const levels = detectLevels(navmesh, unitScale)
+    expect(levels.map((l) => l.id)).toEqual(['Level_0', 'Level_1'])
+    expect(levels.map((l) => l.elevation)).toEqual([0, STOREY])
+  })
+
+  it('finds both floors of an auto-fitted model (thresholds follow the fit scale)', () => {
+    const { navmesh, unitScale } = building(null)
+    expect(unitScale).toBeCloseTo(1.5 / (STOREY * 2))
+    expect(detectLevels(navmesh, 1)).toHaveLength(1) // storeys closer than the unscaled gap
+    const levels = detectLevels(navmesh, unitScale)
+    expect(levels).toHaveLength(2)
+    expect(levels[1].elevation - levels[0].elevation).toBeCloseTo(STOREY * unitScale, 1)
+    expect(levelForHeight(levels, levels[1].elevation + 0.01)?.id).toBe('Level_1')
+    expect([...levelCentroids(navmesh, levels).keys()]).toEqual(['Level_0', 'Level_1'])
+  })
+
+  it('prefers level names over clustering', () => {
+    const { navmesh } = building(null)
+    navmesh[0].userData.levelTag = 'Level_1'
+    navmesh[1].userData.levelTag = 'Level_2'
+    expect(detectLevels(navmesh).map((l) => l.name)).toEqual(['Level 1', 'Level 2'])
+  })
+})
@@ -0,0 +1,127 @@
+// src/levels.ts
+// Floors (levels) of the baked navmesh, and the transform loadGLB applies to the model (the navmesh is baked with it).
+import * as THREE from 'three'
+import type { ViewerLevel } from './viewer'
+
+// ---- clustering thresholds, in model-file units (scaled by the applied model transform)
+export const LEVEL_MIN_GAP = 2.0 // min vertical distance between two floors
+const LEVEL_BUCKET = 0.1         // height histogram bucket size
+const LEVEL_MIN_AREA = 0.05      // ignore heights with < 5% of the biggest floor's area (stair treads, landings)
+
+// ---- auto-fit (model without a SpawnPoint)
+const FIT_HEIGHT = 1.5
+const FIT_CENTER_Y = 1.0
+
+const _tmpV = new THREE.Vector3()
+
+// Transform applied to a loaded model: the inverse of its `SpawnPoint` empty, else centred and scaled to FIT_HEIGHT.
+export function modelPlacement(root: THREE.Object3D): THREE.Matrix4 {
+  const spawn = root.getObjectByName('SpawnPoint')
+  if (spawn) {
+    spawn.updateWorldMatrix(true, true)
+    return new THREE.Matrix4().copy(spawn.matrixWorld).invert()
+  }
+  const box = new THREE.Box3().setFromObject(root)
+  const size = box.getSize(new THREE.Vector3())
+  const center = box.getCenter(new THREE.Vector3())
+  const s = FIT_HEIGHT / (size.y || 1.0)
+  return new THREE.Matrix4().makeTranslation(0, FIT_CENTER_Y, 0)
+    .multiply(new THREE.Matrix4().makeScale(s, s, s))
+    .multiply(new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z))
+}
+
+// Calls `cb` for every walkable (near-horizontal) triangle with its centroid and area.
+function forEachFloorTriangle(meshes: THREE.Mesh[], cb: (centroid: THREE.Vector3, area: number) => void) {
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3(), n = new THREE.Vector3()
+  const centroid = new THREE.Vector3()
+  for (const m of meshes) {
+    const pos = m.geometry.getAttribute('position')
+    const idx = m.geometry.index
+    const count = idx ? idx.count : pos.count
+    for (let i = 0; i + 2 < count; i += 3) {
+      const ia = idx ? idx.getX(i) : i, ib = idx ? idx.getX(i + 1) : i + 1, ic = idx ? idx.getX(i + 2) : i + 2
+      a.fromBufferAttribute(pos, ia); b.fromBufferAttribute(pos, ib); c.fromBufferAttribute(pos, ic)
+      n.subVectors(c, b).cross(_tmpV.subVectors(a, b))
+      const len = n.length()
+      if (len === 0 || Math.abs(n.y) / len < 0.9) continue // ramps / walls
+      cb(centroid.addVectors(a, b).add(c).divideScalar(3), len / 2)
+    }
+  }
+}
+
+// Area of walkable triangles per height bucket, sorted by height.
+function floorHistogram(meshes: THREE.Mesh[], bucket: number) {
+  const area = new Map<number, number>()
+  forEachFloorTriangle(meshes, (p, a) => {
+    const key = Math.round(p.y / bucket)
+    area.set(key, (area.get(key) ?? 0) + a)
+  })
+  return [...area.entries()].sort((p, q) => p[0] - q[0]).map(([k, v]) => ({ y: k * bucket, area: v }))
+}
+
+// Floor height of a set of meshes = height with the most walkable area
+function dominantHeight(meshes: THREE.Mesh[], bucket: number) {
+  let best = { y: 0, area: -1 }
+  for (const h of floorHistogram(meshes, bucket)) if (h.area > best.area) best = h
+  return best.y
+}
+
+// Identify floors: by mesh name (`Level_1`, `Floor 2`, …) if any, else by vertical clustering of floor area.
+// `unitScale` = navmesh units per model-file unit (the scale of the applied model transform), so an auto-fitted
+// building clusters the same as at its authored size. Elevations stay in navmesh units.
+export function detectLevels(meshes: THREE.Mesh[], unitScale = 1): ViewerLevel[] {
+  const bucket = LEVEL_BUCKET * unitScale
+  const named = new Map<string, THREE.Mesh[]>()
+  for (const m of meshes) {
+    const tag = m.userData.levelTag as string | undefined
+    if (tag) named.set(tag, [...(named.get(tag) ?? []), m])
+  }
+  if (named.size > 0) {
+    return [...named.entries()]
+      .map(([id, ms]) => ({ id, name: id.replace(/_/g, ' '), elevation: dominantHeight(ms, bucket) }))
+      .sort((p, q) => p.elevation - q.elevation)
+      .map((l, index) => ({ ...l, index }))
+  }
+
+  const hist = floorHistogram(meshes, bucket)
+  const maxArea = Math.max(0, ...hist.map((h) => h.area))
+  const clusters: { top: number; peak: { y: number; area: number } }[] = []
+  for (const h of hist) {
+    if (h.area < maxArea * LEVEL_MIN_AREA) continue
+    const last = clusters[clusters.length - 1]
+    if (last && h.y - last.top < LEVEL_MIN_GAP * unitScale) {
+      last.top = h.y
+      if (h.area > last.peak.area) last.peak = h
+    } else {
+      clusters.push({ top: h.y, peak: h })
+    }
+  }
+  return clusters.map((c, index) => ({ id: `Level_${index}`, name: `Level ${index}`, index, elevation: c.peak.y }))
+}
+
+// level containing a model-space height (split halfway between floor elevations)
+export function levelForHeight(levels: ViewerLevel[], y: number): ViewerLevel | null {
+  for (let i = 0; i < levels.length - 1; i++) {
+    if (y < (levels[i].elevation + levels[i + 1].elevation) / 2) return levels[i]
+  }
+  return levels[levels.length - 1] ?? null
+}
+
+// Fallback arrival point per level: the walkable triangle centre nearest to the floor's area-weighted centroid.
+export function levelCentroids(meshes: THREE.Mesh[], levels: ViewerLevel[]) {
+  const sums = new Map<string, { sum: THREE.Vector3; area: number }>()
+  forEachFloorTriangle(meshes, (p, a) => {
+    const l = levelForHeight(levels, p.y); if (!l) return
+    const e = sums.get(l.id) ?? { sum: new THREE.Vector3(), area: 0 }
+    e.sum.addScaledVector(p, a); e.area += a
+    sums.set(l.id, e)
+  })
+  const out = new Map<string, THREE.Vector3>()
+  const best = new Map<string, number>()
+  forEachFloorTriangle(meshes, (p) => {
+    const l = levelForHeight(levels, p.y); const e = l && sums.get(l.id); if (!l || !e) return
+    const d = _tmpV.copy(e.sum).divideScalar(e.area).distanceToSquared(p)
+    if (d < (best.get(l.id) ?? Infinity)) { best.set(l.id, d); out.set(l.id, p.clone()) }
+  })
+  return out
+}
@@ -0,0 +1,32 @@
+// src/loaders.ts
+// GLTFLoader with the compressed-glTF decoders wired in (Draco, KTX2/Basis, Meshopt), served from our own origin.
+import * as THREE from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader'
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader'
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js'
+
+// vite.config.ts serves/copies three's decoder builds here (see threeDecoders())
+export const DEFAULT_DECODER_PATH = '/decoders/'
+
+export type AssetLoaders = {
+  gltf: GLTFLoader
+  dispose: () => void // stops the decoder workers
+}
+
+export function createAssetLoaders(renderer: THREE.WebGLRenderer, decoderPath = DEFAULT_DECODER_PATH): AssetLoaders {
+  const base = decoderPath.endsWith('/') ? decoderPath : `${decoderPath}/`
+  const draco = new DRACOLoader().setDecoderPath(`${base}draco/`)
+  const ktx2 = new KTX2Loader().setTranscoderPath(`${base}basis/`)
+  try { ktx2.detectSupport(renderer) } catch (e) { console.warn('[viewer] KTX2 support detection failed', e) }
+
+  const gltf = new GLTFLoader()
+    .setDRACOLoader(draco)
+    .setKTX2Loader(ktx2)
+    .setMeshoptDecoder(MeshoptDecoder)
+
+  return {
+    gltf,
+    dispose: () => { draco.dispose(); ktx2.dispose() },
+  }
+}
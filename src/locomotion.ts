@@ -0,0 +1,105 @@
+// src/locomotion.ts
+// VR locomotion helpers: parabolic teleport arc and the comfort vignette shown during smooth rig motion.
+import * as THREE from 'three'
+
+// ---- arc
+const ARC_SEGMENTS = 32
+const ARC_SPEED = 7        // launch speed (m/s): ~5 m reach at 45° from standing height
+const ARC_GRAVITY = 9.8
+const ARC_TIME = 1.6       // longest flight simulated (s)
+const ARC_VALID = 0x60a5fa
+const ARC_INVALID = 0xef4444
+
+// ---- vignette
+const VIGNETTE_DIST = 0.1  // in front of the eyes (m); the quad covers well past the headset FOV
+const VIGNETTE_SIZE = 0.6
+
+export type TeleportArc = {
+  object: THREE.Line
+  // traces the parabola from the controller; `hitTest` checks one segment (world space) and returns the first hit on it
+  cast: (origin: THREE.Vector3, dir: THREE.Vector3, hitTest: (from: THREE.Vector3, to: THREE.Vector3) => THREE.Intersection | null) => THREE.Intersection | null
+  setValid: (valid: boolean) => void
+  dispose: () => void
+}
+
+export function createTeleportArc(): TeleportArc {
+  const positions = new Float32Array((ARC_SEGMENTS + 1) * 3)
+  const geom = new THREE.BufferGeometry()
+  geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  const mat = new THREE.LineBasicMaterial({ color: ARC_VALID, transparent: true, opacity: 0.9, depthTest: false })
+  const object = new THREE.Line(geom, mat)
+  object.name = 'TeleportArc'
+  object.frustumCulled = false
+  object.renderOrder = 999
+  object.visible = false
+
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), v = new THREE.Vector3()
+
+  return {
+    object,
+    cast: (origin, dir, hitTest) => {
+      v.copy(dir).normalize().multiplyScalar(ARC_SPEED)
+      a.copy(origin)
+      positions.set([a.x, a.y, a.z], 0)
+      let n = 1, hit: THREE.Intersection | null = null
+      for (; n <= ARC_SEGMENTS && !hit; n++) {
+        const t = ARC_TIME * n / ARC_SEGMENTS
+        b.set(origin.x + v.x * t, origin.y + v.y * t - 0.5 * ARC_GRAVITY * t * t, origin.z + v.z * t)
+        hit = hitTest(a, b)
+        const end = hit ? hit.point : b
+        positions.set([end.x, end.y, end.z], n * 3)
+        a.copy(b)
+      }
+      geom.setDrawRange(0, n)
+      geom.attributes.position.needsUpdate = true
+      object.visible = true
+      return hit
+    },
+    setValid: (valid) => { mat.color.setHex(valid ? ARC_VALID : ARC_INVALID) },
+    dispose: () => { geom.dispose(); mat.dispose() },
+  }
+}
+
+export type Vignette = {
+  object: THREE.Mesh // child of the camera
+  update: (motion: number, dt: number) => void // motion 0..1 (rig speed / turn rate), eased in and out
+  dispose: () => void
+}
+
+// Darkens the periphery; `strength` 0 disables it, 1 leaves a narrow tunnel.
+export function createVignette(strength: number): Vignette {
+  const mat = new THREE.ShaderMaterial({
+    uniforms: { amount: { value: 0 } },
+    vertexShader: /* glsl */`
+      varying vec2 vUv;
+      void main() { vUv = uv; gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }`,
+    fragmentShader: /* glsl */`
+      uniform float amount;
+      varying vec2 vUv;
+      void main() {
+        float r = length(vUv - 0.5) * 2.0;
+        float inner = mix(1.2, 0.25, amount);
+        gl_FragColor = vec4(0.0, 0.0, 0.0, smoothstep(inner, inner + 0.25, r) * min(1.0, amount * 2.0));
+      }`,
+    transparent: true, depthTest: false, depthWrite: false,
+  })
+  const object = new THREE.Mesh(new THREE.PlaneGeometry(VIGNETTE_SIZE, VIGNETTE_SIZE), mat)
+  object.name = 'ComfortVignette'
+  object.position.z = -VIGNETTE_DIST
+  object.renderOrder = 1100
+  object.frustumCulled = false
+  object.visible = false
+  let amount = 0
+
+  return {
+    object,
+    update: (motion, dt) => {
+      const target = strength * THREE.MathUtils.clamp(motion, 0, 1)
+      amount += (target - amount) * Math.min(1, dt * (target > amount ? 12 : 4)) // close fast, open gently
+      if (amount < 0.005) amount = 0
+      mat.uniforms.amount.value = amount
+      object.visible = amount > 0
+    },
+    dispose: () => { object.geometry.dispose(); mat.dispose() },
+  }
+}
@@ -0,0 +1,254 @@
+// src/measure.ts
+import * as THREE from 'three'
+import type { Vec3Tuple } from './viewer'
+
+// ---- look
+const LINE_COLOR = 0xfacc15
+const POINT_PX = 8
+const LABEL_H = 0.032 // fraction of the view height (sizeAttenuation off)
+const LABEL_TEX_H = 64
+const SNAP_COLORS = { vertex: 0xfacc15, edge: 0x22d3ee, surface: 0xffffff }
+
+export type MeasureUnits = 'metric' | 'imperial'
+export type SnapKind = 'vertex' | 'edge' | 'surface'
+
+// Endpoints in the model file's coordinates; distance in model units (metres for glTF, see `metersPerUnit`).
+export type Measurement = {
+  id: string
+  a: Vec3Tuple
+  b: Vec3Tuple
+  distance: number
+  label: string
+}
+
+export function formatLength(meters: number, units: MeasureUnits) {
+  if (units === 'imperial') {
+    const eighths = Math.round(meters / 0.0254 * 8) // nearest 1/8"
+    const ft = Math.floor(eighths / 96)
+    const inch = (eighths - ft * 96) / 8
+    const inStr = `${Number.isInteger(inch) ? inch : inch.toFixed(3).replace(/0+$/, '')}″`
+    return ft > 0 ? `${ft}′ ${inStr}` : inStr
+  }
+  if (meters < 0.01) return `${(meters * 1000).toFixed(0)} mm`
+  if (meters < 1) return `${(meters * 100).toFixed(1)} cm`
+  return `${meters.toFixed(2)} m`
+}
+
+const _tri = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()]
+const _edge = new THREE.Line3()
+const _onEdge = new THREE.Vector3()
+
+// Snap a surface hit to the nearest corner or edge of the hit triangle within `tolerance` (world units).
+export function snapToFeature(hit: THREE.Intersection, tolerance: number): { point: THREE.Vector3; kind: SnapKind } {
+  const mesh = hit.object as THREE.Mesh
+  const pos = mesh.isMesh ? mesh.geometry.getAttribute('position') : undefined
+  if (!hit.face || !pos) return { point: hit.point.clone(), kind: 'surface' }
+  const idx = [hit.face.a, hit.face.b, hit.face.c]
+  idx.forEach((i, k) => _tri[k].fromBufferAttribute(pos, i).applyMatrix4(mesh.matrixWorld))
+
+  let best: THREE.Vector3 | null = null
+  let bestD = tolerance
+  for (const v of _tri) {
+    const d = v.distanceTo(hit.point)
+    if (d <= bestD) { bestD = d; best = v }
+  }
+  if (best) return { point: best.clone(), kind: 'vertex' }
+
+  bestD = tolerance * 0.6 // tighter radius for edges, so corners win when both are near
+  for (let k = 0; k < 3; k++) {
+    _edge.set(_tri[k], _tri[(k + 1) % 3]).closestPointToPoint(hit.point, true, _onEdge)
+    const d = _onEdge.distanceTo(hit.point)
+    if (d <= bestD) { bestD = d; best = (best ?? new THREE.Vector3()).copy(_onEdge) }
+  }
+  return best ? { point: best, kind: 'edge' } : { point: hit.point.clone(), kind: 'surface' }
+}
+
+// World <-> model file coordinates; supplied by the viewer (they change with setModelScale).
+export type MeasureHost = {
+  toFile: (world: THREE.Vector3) => THREE.Vector3
+  toWorld: (file: THREE.Vector3) => THREE.Vector3
+  onChange: (list: Measurement[]) => void
+}
+
+export type MeasureTool = {
+  object: THREE.Group
+  readonly list: Measurement[]
+  readonly pending: boolean
+  setUnits: (u: MeasureUnits) => void
+  add: (a: Vec3Tuple, b: Vec3Tuple) => Measurement
+  remove: (id: string) => boolean
+  clear: () => void
+  pick: (world: THREE.Vector3) => Measurement | null // 1st pick starts, 2nd completes
+  hover: (snap: { point: THREE.Vector3; kind: SnapKind } | null) => void
+  cancel: () => void
+  relayout: () => void
+  dispose: () => void
+}
+
+type Label = { sprite: THREE.Sprite; ctx: CanvasRenderingContext2D; tex: THREE.CanvasTexture }
+
+function createLabel(): Label {
+  const c = document.createElement('canvas'); c.height = LABEL_TEX_H
+  const tex = new THREE.CanvasTexture(c); tex.colorSpace = THREE.SRGBColorSpace
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: tex, sizeAttenuation: false, depthTest: false, transparent: true }))
+  sprite.renderOrder = 999
+  return { sprite, ctx: c.getContext('2d')!, tex }
+}
+
+function drawLabel(l: Label, text: string) {
+  const { ctx } = l
+  const font = '600 34px system-ui, -apple-system, Segoe UI, Inter, Roboto, sans-serif'
+  ctx.font = font
+  const w = Math.ceil(ctx.measureText(text).width) + 36
+  if (ctx.canvas.width !== w) {
+    ctx.canvas.width = w // resizing resets the context state
+    l.tex.dispose()
+  }
+  ctx.clearRect(0, 0, w, LABEL_TEX_H)
+  ctx.fillStyle = 'rgba(15,17,22,0.85)'
+  ctx.beginPath(); ctx.roundRect(0, 0, w, LABEL_TEX_H, LABEL_TEX_H / 2); ctx.fill()
+  ctx.font = font
+  ctx.fillStyle = '#fef9c3'
+  ctx.textAlign = 'center'; ctx.textBaseline = 'middle'
+  ctx.fillText(text, w / 2, LABEL_TEX_H / 2 + 2)
+  l.tex.needsUpdate = true
+  l.sprite.scale.set(LABEL_H * w / LABEL_TEX_H, LABEL_H, 1)
+}
+
+function disposeLabel(l: Label) {
+  l.tex.dispose(); l.sprite.material.dispose()
+}
+
+// two-point geometry, updated in place (the rubber band changes every frame)
+const segmentGeometry = () => new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(6), 3))
+function setSegment(g: THREE.BufferGeometry, a: THREE.Vector3, b: THREE.Vector3) {
+  const pos = g.getAttribute('position') as THREE.BufferAttribute
+  pos.setXYZ(0, a.x, a.y, a.z); pos.setXYZ(1, b.x, b.y, b.z)
+  pos.needsUpdate = true
+  g.computeBoundingSphere()
+}
+
+type Entry = {
+  data: Measurement
+  a: THREE.Vector3 // file coords
+  b: THREE.Vector3
+  line: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>
+  ends: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>
+  label: Label
+}
+
+// Persistent dimension lines (line + end points + screen-size label) kept in world space at the scene root.
+export function createMeasureTool(host: MeasureHost, opts: { units?: MeasureUnits; metersPerUnit?: number } = {}): MeasureTool {
+  const object = new THREE.Group(); object.name = 'Measurements'
+  let units: MeasureUnits = opts.units ?? 'metric'
+  const metersPerUnit = opts.metersPerUnit ?? 1
+  const entries = new Map<string, Entry>()
+  let seq = 0
+
+  const lineMat = new THREE.LineBasicMaterial({ color: LINE_COLOR, depthTest: false, transparent: true })
+  const pointMat = new THREE.PointsMaterial({ color: LINE_COLOR, size: POINT_PX, sizeAttenuation: false, depthTest: false, transparent: true })
+
+  // interactive state: pending start point (file coords), live rubber band, snap indicator
+  let start: THREE.Vector3 | null = null
+  const band = new THREE.LineSegments(segmentGeometry(), lineMat)
+  band.renderOrder = 998; band.visible = false
+  const bandLabel = createLabel(); bandLabel.sprite.visible = false
+  const snapMat = new THREE.PointsMaterial({ size: POINT_PX * 1.6, sizeAttenuation: false, depthTest: false, transparent: true })
+  const snapDot = new THREE.Points(new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0], 3)), snapMat)
+  snapDot.renderOrder = 999; snapDot.visible = false
+  object.add(band, bandLabel.sprite, snapDot)
+
+  const list = () => [...entries.values()].map((e) => e.data)
+  const labelFor = (d: number) => formatLength(d * metersPerUnit, units)
+
+  function layout(e: Entry) {
+    const wa = host.toWorld(e.a), wb = host.toWorld(e.b)
+    setSegment(e.line.geometry, wa, wb)
+    setSegment(e.ends.geometry, wa, wb)
+    e.label.sprite.position.copy(wa).lerp(wb, 0.5)
+  }
+
+  function add(a: Vec3Tuple, b: Vec3Tuple): Measurement {
+    const va = new THREE.Vector3(...a), vb = new THREE.Vector3(...b)
+    const distance = va.distanceTo(vb)
+    const data: Measurement = { id: `m${++seq}`, a: [...a], b: [...b], distance, label: labelFor(distance) }
+    const line = new THREE.LineSegments(segmentGeometry(), lineMat)
+    const ends = new THREE.Points(segmentGeometry(), pointMat)
+    line.renderOrder = ends.renderOrder = 998
+    const label = createLabel()
+    drawLabel(label, data.label)
+    const e: Entry = { data, a: va, b: vb, line, ends, label }
+    layout(e)
+    object.add(line, ends, label.sprite)
+    entries.set(data.id, e)
+    host.onChange(list())
+    return data
+  }
+
+  function removeEntry(e: Entry) {
+    object.remove(e.line, e.ends, e.label.sprite)
+    e.line.geometry.dispose(); e.ends.geometry.dispose(); disposeLabel(e.label)
+    entries.delete(e.data.id)
+  }
+
+  function hover(snap: { point: THREE.Vector3; kind: SnapKind } | null) {
+    snapDot.visible = !!snap
+    if (snap) {
+      snapDot.position.copy(snap.point)
+      snapMat.color.setHex(SNAP_COLORS[snap.kind])
+    }
+    band.visible = bandLabel.sprite.visible = !!(snap && start)
+    if (snap && start) {
+      const ws = host.toWorld(start)
+      setSegment(band.geometry, ws, snap.point)
+      bandLabel.sprite.position.copy(ws).lerp(snap.point, 0.5)
+      drawLabel(bandLabel, labelFor(start.distanceTo(host.toFile(snap.point))))
+    }
+  }
+
+  function cancel() {
+    start = null
+    band.visible = bandLabel.sprite.visible = false
+  }
+
+  return {
+    object,
+    get list() { return list() },
+    get pending() { return start !== null },
+    setUnits: (u) => {
+      units = u
+      entries.forEach((e) => { e.data.label = labelFor(e.data.distance); drawLabel(e.label, e.data.label) })
+      host.onChange(list())
+    },
+    add,
+    remove: (id) => {
+      const e = entries.get(id)
+      if (!e) return false
+      removeEntry(e)
+      host.onChange(list())
+      return true
+    },
+    clear: () => {
+      cancel()
+      if (entries.size === 0) return
+      entries.forEach(removeEntry)
+      host.onChange(list())
+    },
+    pick: (world) => {
+      const f = host.toFile(world)
+      if (!start) { start = f; return null }
+      const a = start
+      cancel()
+      if (a.distanceTo(f) < 1e-6) return null
+      return add(a.toArray() as Vec3Tuple, f.toArray() as Vec3Tuple)
+    },
+    hover,
+    cancel,
+    relayout: () => entries.forEach(layout),
+    dispose: () => {
+      entries.forEach(removeEntry)
+      band.geometry.dispose(); snapDot.geometry.dispose(); disposeLabel(bandLabel)
+      lineMat.dispose(); pointMat.dispose(); snapMat.dispose()
+    },
+  }
+}
@@ -0,0 +1,167 @@
+// src/minimap.ts
+import * as THREE from 'three'
+
+// ---- look
+const MAP_PX = 512              // canvas resolution (square)
+const MAP_MARGIN = 28           // px around the floor outline
+const VR_SIZE = 0.18            // VR panel (m)
+const VIEW_CONE = THREE.MathUtils.degToRad(70)
+const HEADING_STEP = THREE.MathUtils.degToRad(1) // heading change that warrants a redraw
+
+// Top-down floor in navmesh-local coordinates (model units): x right, z down the map
+export type MinimapFloor = {
+  triangles: number[] // x, z per vertex, three vertices per triangle
+  edges: number[]     // outline segments x0, z0, x1, z1
+  min: THREE.Vector2  // (x, z) bounds
+  max: THREE.Vector2
+}
+
+// Outline of the navmesh triangles whose centroid height passes `keep` (edges used by exactly one triangle).
+export function floorOutline(meshes: THREE.Mesh[], keep: (centroidY: number) => boolean): MinimapFloor | null {
+  const triangles: number[] = []
+  const edgeUse = new Map<string, { n: number; seg: number[] }>()
+  const min = new THREE.Vector2(Infinity, Infinity), max = new THREE.Vector2(-Infinity, -Infinity)
+  const tri = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()]
+  const key = (v: THREE.Vector3) => `${Math.round(v.x * 1000)},${Math.round(v.y * 1000)},${Math.round(v.z * 1000)}`
+
+  for (const m of meshes) {
+    const pos = m.geometry.getAttribute('position')
+    const index = m.geometry.index
+    const count = index ? index.count : pos.count
+    for (let i = 0; i + 2 < count; i += 3) {
+      for (let k = 0; k < 3; k++) tri[k].fromBufferAttribute(pos, index ? index.getX(i + k) : i + k)
+      if (!keep((tri[0].y + tri[1].y + tri[2].y) / 3)) continue
+      for (let k = 0; k < 3; k++) {
+        const p = tri[k], q = tri[(k + 1) % 3]
+        triangles.push(p.x, p.z)
+        min.set(Math.min(min.x, p.x), Math.min(min.y, p.z)); max.set(Math.max(max.x, p.x), Math.max(max.y, p.z))
+        const kp = key(p), kq = key(q)
+        const ek = kp < kq ? `${kp}|${kq}` : `${kq}|${kp}`
+        const e = edgeUse.get(ek)
+        if (e) e.n++
+        else edgeUse.set(ek, { n: 1, seg: [p.x, p.z, q.x, q.z] })
+      }
+    }
+  }
+  if (triangles.length === 0) return null
+  const edges: number[] = []
+  edgeUse.forEach((e) => { if (e.n === 1) edges.push(...e.seg) })
+  return { triangles, edges, min, max }
+}
+
+export type Minimap = {
+  canvas: HTMLCanvasElement // mount in the page overlay
+  object: THREE.Mesh        // same map as a VR panel (attach to a controller)
+  setFloor: (f: MinimapFloor | null) => void
+  update: (x: number, z: number, heading: number) => void // navmesh-local position, heading = yaw (rad)
+  intersect: (raycaster: THREE.Raycaster) => { x: number; z: number } | null
+  dispose: () => void
+}
+
+// One canvas drawn for both the DOM overlay and the VR panel; picks report navmesh-local (x, z).
+export function createMinimap(opts: { onPick: (x: number, z: number) => void; accent?: string }): Minimap {
+  const accent = opts.accent ?? '#60a5fa'
+  const canvas = document.createElement('canvas'); canvas.width = canvas.height = MAP_PX
+  Object.assign(canvas.style, { display: 'block', width: '100%', height: '100%', cursor: 'crosshair', touchAction: 'none' } as Partial<CSSStyleDeclaration>)
+  const ctx = canvas.getContext('2d')!
+  const base = document.createElement('canvas'); base.width = base.height = MAP_PX // floor layer, redrawn per floor
+
+  const tex = new THREE.CanvasTexture(canvas); tex.colorSpace = THREE.SRGBColorSpace
+  const object = new THREE.Mesh(
+    new THREE.PlaneGeometry(VR_SIZE, VR_SIZE),
+    new THREE.MeshBasicMaterial({ map: tex, transparent: true, depthTest: false, side: THREE.DoubleSide })
+  )
+  object.name = 'Minimap'
+  object.renderOrder = 1001
+
+  let floor: MinimapFloor | null = null
+  const view = { s: 1, cx: 0, cz: 0 } // map px per model unit, centre
+  const last = { x: NaN, z: NaN, h: NaN }
+  const drawn = { u: NaN, v: NaN, a: NaN } // marker as last drawn: whole px, heading steps
+
+  const toPx = (x: number, z: number): [number, number] => [(x - view.cx) * view.s + MAP_PX / 2, (z - view.cz) * view.s + MAP_PX / 2]
+  const fromPx = (u: number, v: number) => ({ x: (u - MAP_PX / 2) / view.s + view.cx, z: (v - MAP_PX / 2) / view.s + view.cz })
+
+  function drawBase() {
+    const b = base.getContext('2d')!
+    b.clearRect(0, 0, MAP_PX, MAP_PX)
+    if (!floor) return
+    b.fillStyle = 'rgba(255,255,255,0.16)'
+    b.beginPath()
+    for (let i = 0; i < floor.triangles.length; i += 6) {
+      b.moveTo(...toPx(floor.triangles[i], floor.triangles[i + 1]))
+      b.lineTo(...toPx(floor.triangles[i + 2], floor.triangles[i + 3]))
+      b.lineTo(...toPx(floor.triangles[i + 4], floor.triangles[i + 5]))
+      b.closePath()
+    }
+    b.fill()
+    b.strokeStyle = 'rgba(255,255,255,0.85)'; b.lineWidth = 3; b.lineJoin = 'round'
+    b.beginPath()
+    for (let i = 0; i < floor.edges.length; i += 4) {
+      b.moveTo(...toPx(floor.edges[i], floor.edges[i + 1]))
+      b.lineTo(...toPx(floor.edges[i + 2], floor.edges[i + 3]))
+    }
+    b.stroke()
+  }
+
+  // marker in canvas px and heading steps; the texture only changes when one of these does
+  const marker = () => {
+    const [px, py] = toPx(last.x, last.z)
+    return { u: Math.round(px), v: Math.round(py), a: Math.round(last.h / HEADING_STEP) }
+  }
+
+  function draw() {
+    Object.assign(drawn, marker())
+    ctx.clearRect(0, 0, MAP_PX, MAP_PX)
+    ctx.fillStyle = 'rgba(15,17,22,0.75)'
+    ctx.beginPath(); ctx.roundRect(0, 0, MAP_PX, MAP_PX, 24); ctx.fill()
+    ctx.drawImage(base, 0, 0)
+    if (floor && isFinite(last.x)) {
+      const [px, py] = toPx(last.x, last.z)
+      const a = Math.atan2(-Math.cos(last.h), -Math.sin(last.h)) // forward (-sin h, -cos h) in (x, z)
+      ctx.fillStyle = accent; ctx.globalAlpha = 0.35
+      ctx.beginPath(); ctx.moveTo(px, py); ctx.arc(px, py, 64, a - VIEW_CONE / 2, a + VIEW_CONE / 2); ctx.closePath(); ctx.fill()
+      ctx.globalAlpha = 1
+      ctx.beginPath(); ctx.arc(px, py, 11, 0, Math.PI * 2); ctx.fill()
+      ctx.strokeStyle = '#fff'; ctx.lineWidth = 4; ctx.stroke()
+    }
+    tex.needsUpdate = true
+  }
+
+  function setFloor(f: MinimapFloor | null) {
+    if (f === floor) return
+    floor = f
+    if (f) {
+      const w = Math.max(1e-3, f.max.x - f.min.x), h = Math.max(1e-3, f.max.y - f.min.y)
+      view.s = (MAP_PX - MAP_MARGIN * 2) / Math.max(w, h)
+      view.cx = (f.min.x + f.max.x) / 2; view.cz = (f.min.y + f.max.y) / 2
+    }
+    drawBase()
+    draw()
+  }
+
+  canvas.addEventListener('click', (e) => {
+    if (!floor) return
+    const rect = canvas.getBoundingClientRect()
+    const p = fromPx((e.clientX - rect.left) * MAP_PX / rect.width, (e.clientY - rect.top) * MAP_PX / rect.height)
+    opts.onPick(p.x, p.z)
+  })
+
+  return {
+    canvas,
+    object,
+    setFloor,
+    update: (x, z, h) => {
+      last.x = x; last.z = z; last.h = h
+      const m = marker()
+      if (m.u === drawn.u && m.v === drawn.v && m.a === drawn.a) return
+      draw()
+    },
+    intersect: (raycaster) => {
+      if (!floor || !object.parent) return null
+      const uv = raycaster.intersectObject(object, false)[0]?.uv
+      return uv ? fromPx(uv.x * MAP_PX, (1 - uv.y) * MAP_PX) : null
+    },
+    dispose: () => { tex.dispose(); object.geometry.dispose(); (object.material as THREE.Material).dispose() },
+  }
+}
@@ -0,0 +1,306 @@
+// src/multiplayer.ts
+// Optional co-presence: rig / head / controller poses relayed through a WebSocket room (server.mjs hosts the relay),
+// simple avatars with name labels, and "follow the presenter".
+import * as THREE from 'three'
+
+const SEND_HZ = 15
+const AVATAR_LERP = 12          // avatar smoothing rate (1/s)
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 10000
+const HEAD_RADIUS = 0.12        // m
+const HAND_RADIUS = 0.035
+const LABEL_H = 0.1             // name label height (m)
+const LABEL_TEX_H = 64
+export const RELAY_PATH = '/multiplayer'
+
+export type Vec3T = [number, number, number]
+export type QuatT = [number, number, number, number]
+export type PoseT = { p: Vec3T; q: QuatT }
+
+// What each participant sends. `rig` is the floor point in model file coordinates; head / hand offsets are
+// metres from the rig in the model file's axes, so avatars stay person-sized whatever scale each peer views at.
+export type PeerPose = {
+  rig: Vec3T
+  head: PoseT
+  hands: (PoseT | null)[]
+  xr: boolean
+}
+
+export type Peer = { id: string; name: string }
+
+// wire format (JSON text frames), mirrored by the relay in server.mjs
+export type ClientMessage =
+  | { t: 'hello'; room: string; name: string }
+  | { t: 'pose'; pose: PeerPose }
+  | { t: 'present'; on: boolean }
+export type ServerMessage =
+  | { t: 'welcome'; id: string; peers: Peer[]; presenter: string | null }
+  | { t: 'join'; id: string; name: string }
+  | { t: 'leave'; id: string }
+  | { t: 'pose'; id: string; pose: PeerPose }
+  | { t: 'presenter'; id: string | null }
+
+export type MultiplayerOptions = {
+  room: string
+  name?: string
+  url?: string        // default: ws(s)://<this host>/multiplayer
+  presenter?: boolean // claim the presenter role on join
+  follow?: boolean    // follow whoever presents (default true for non-presenters)
+}
+
+export type MultiplayerStatus = {
+  connected: boolean
+  room: string
+  id: string | null   // ours, once welcomed
+  name: string
+  peers: Peer[]       // others in the room
+  presenter: string | null // peer id, may be our own
+  following: boolean
+}
+
+export type MultiplayerHost = {
+  scene: THREE.Object3D                  // avatars are added here
+  localPose: () => PeerPose
+  follow: (pose: PeerPose, dt: number) => void // drive the local rig / view from the presenter
+  toWorld: (p: Vec3T) => THREE.Vector3   // model file coordinates -> world
+  frame: () => THREE.Quaternion          // model file axes -> world rotation
+  onChange: (s: MultiplayerStatus) => void
+}
+
+export type Multiplayer = {
+  readonly status: MultiplayerStatus
+  setPresenter: (on: boolean) => void
+  setFollow: (on: boolean) => void
+  update: (dt: number) => void
+  dispose: () => void
+}
+
+export function defaultRelayUrl(loc: Location = window.location) {
+  return `${loc.protocol === 'https:' ? 'wss' : 'ws'}://${loc.host}${RELAY_PATH}`
+}
+
+// ?room=<id>&name=<display name>&presenter=1 (no room = single user)
+export function multiplayerFromLocation(loc: Location = window.location): MultiplayerOptions | null {
+  const q = new URLSearchParams(loc.search)
+  const room = q.get('room')?.trim()
+  if (!room) return null
+  return { room, name: q.get('name')?.trim() || undefined, presenter: q.get('presenter') === '1' }
+}
+
+const finiteTuple = (v: unknown, n: number) => Array.isArray(v) && v.length === n && v.every((x) => typeof x === 'number' && Number.isFinite(x))
+const isPose = (v: unknown): v is PoseT => !!v && typeof v === 'object' && finiteTuple((v as PoseT).p, 3) && finiteTuple((v as PoseT).q, 4)
+
+// relayed poses come from other clients: check the shape before the render loop uses them (server.mjs checks the same)
+export function isPeerPose(v: unknown): v is PeerPose {
+  if (!v || typeof v !== 'object') return false
+  const p = v as PeerPose
+  return finiteTuple(p.rig, 3) && isPose(p.head) && Array.isArray(p.hands) && p.hands.length <= 2 && p.hands.every((h) => h === null || isPose(h))
+}
+
+type Avatar = {
+  peer: Peer
+  pose: PeerPose | null
+  group: THREE.Group
+  head: THREE.Mesh
+  hands: THREE.Mesh[]
+  label: THREE.Sprite
+}
+
+function peerColor(id: string) {
+  let h = 0
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) >>> 0
+  return new THREE.Color().setHSL((h % 360) / 360, 0.65, 0.55)
+}
+
+function makeLabel(text: string, color: THREE.Color) {
+  const c = document.createElement('canvas')
+  const ctx = c.getContext('2d')!
+  const font = '600 40px system-ui, -apple-system, Segoe UI, Inter, Roboto, sans-serif'
+  ctx.font = font
+  c.width = Math.min(512, Math.ceil(ctx.measureText(text).width) + 40); c.height = LABEL_TEX_H
+  ctx.font = font // reset by the resize
+  ctx.fillStyle = 'rgba(17,24,39,0.85)'
+  ctx.beginPath(); ctx.roundRect(0, 0, c.width, c.height, 16); ctx.fill()
+  ctx.fillStyle = `#${color.getHexString()}`
+  ctx.fillRect(12, 24, 16, 16)
+  ctx.fillStyle = '#e5e7eb'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(text, 36, c.height / 2, c.width - 48)
+  const tex = new THREE.CanvasTexture(c); tex.colorSpace = THREE.SRGBColorSpace
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: tex, depthTest: false, transparent: true }))
+  sprite.scale.set(LABEL_H * c.width / c.height, LABEL_H, 1)
+  sprite.renderOrder = 1003
+  return sprite
+}
+
+export function createMultiplayer(host: MultiplayerHost, opts: MultiplayerOptions): Multiplayer {
+  const url = opts.url ?? defaultRelayUrl()
+  const name = opts.name?.slice(0, 40) || 'Guest'
+  const status: MultiplayerStatus = {
+    connected: false, room: opts.room, id: null, name, peers: [], presenter: null, following: opts.follow ?? !opts.presenter,
+  }
+  let wantPresenter = !!opts.presenter
+  let ws: WebSocket | null = null
+  let disposed = false
+  let retryMs = RECONNECT_MIN_MS
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let sendClock = 0
+
+  const avatars = new Map<string, Avatar>()
+  const headGeom = new THREE.SphereGeometry(HEAD_RADIUS, 20, 14)
+  const visorGeom = new THREE.BoxGeometry(HEAD_RADIUS * 1.5, HEAD_RADIUS * 0.5, HEAD_RADIUS * 0.6)
+  const handGeom = new THREE.SphereGeometry(HAND_RADIUS, 12, 8)
+  const visorMat = new THREE.MeshBasicMaterial({ color: 0x111827 })
+
+  const notify = () => host.onChange({ ...status, peers: [...status.peers] })
+  const send = (m: ClientMessage) => { if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(m)) }
+
+  function addAvatar(peer: Peer) {
+    if (avatars.has(peer.id)) return
+    const color = peerColor(peer.id)
+    const mat = new THREE.MeshStandardMaterial({ color, roughness: 0.6 })
+    const group = new THREE.Group(); group.name = `Avatar_${peer.name}`
+    group.visible = false // until the first pose
+    const head = new THREE.Mesh(headGeom, mat)
+    const visor = new THREE.Mesh(visorGeom, visorMat)
+    visor.position.set(0, HEAD_RADIUS * 0.1, -HEAD_RADIUS * 0.75) // faces -z, like the camera
+    head.add(visor)
+    const hands = [0, 1].map(() => { const m = new THREE.Mesh(handGeom, mat); m.visible = false; return m })
+    const label = makeLabel(peer.name, color)
+    group.add(head, ...hands, label)
+    host.scene.add(group)
+    avatars.set(peer.id, { peer, pose: null, group, head, hands, label })
+  }
+
+  function removeAvatar(id: string) {
+    const a = avatars.get(id)
+    if (!a) return
+    host.scene.remove(a.group)
+    ;(a.head.material as THREE.Material).dispose()
+    a.label.material.map?.dispose(); a.label.material.dispose()
+    avatars.delete(id)
+  }
+
+  function onMessage(m: ServerMessage) {
+    switch (m.t) {
+      case 'welcome':
+        status.id = m.id
+        status.peers = m.peers
+        status.presenter = m.presenter
+        m.peers.forEach(addAvatar)
+        if (wantPresenter && m.presenter !== m.id) send({ t: 'present', on: true })
+        break
+      case 'join':
+        if (!status.peers.some((p) => p.id === m.id)) status.peers.push({ id: m.id, name: m.name })
+        addAvatar({ id: m.id, name: m.name })
+        break
+      case 'leave':
+        status.peers = status.peers.filter((p) => p.id !== m.id)
+        removeAvatar(m.id)
+        break
+      case 'pose': {
+        const a = avatars.get(m.id)
+        if (a && isPeerPose(m.pose)) a.pose = { rig: m.pose.rig, head: m.pose.head, hands: m.pose.hands, xr: !!m.pose.xr }
+        return // no status change
+      }
+      case 'presenter':
+        status.presenter = m.id
+        if (m.id !== status.id) wantPresenter = false // someone else took over
+        break
+      default:
+        return
+    }
+    notify()
+  }
+
+  function connect() {
+    if (disposed) return
+    let sock: WebSocket
+    try { sock = new WebSocket(url) } catch (e) { console.warn('[viewer] multiplayer relay unreachable', e); return retry() }
+    ws = sock
+    sock.onopen = () => {
+      retryMs = RECONNECT_MIN_MS
+      status.connected = true
+      send({ t: 'hello', room: opts.room, name })
+      notify()
+    }
+    sock.onmessage = (e) => {
+      let m: ServerMessage
+      try { m = JSON.parse(String(e.data)) } catch { return }
+      onMessage(m)
+    }
+    sock.onclose = () => {
+      if (ws !== sock) return
+      ws = null
+      const was = status.connected
+      status.connected = false; status.id = null; status.peers = []; status.presenter = null
+      ;[...avatars.keys()].forEach(removeAvatar)
+      if (was) notify()
+      retry()
+    }
+    sock.onerror = () => {} // followed by close
+  }
+
+  function retry() {
+    if (disposed || retryTimer) return
+    retryTimer = setTimeout(() => { retryTimer = null; connect() }, retryMs)
+    retryMs = Math.min(RECONNECT_MAX_MS, retryMs * 2)
+  }
+
+  const _q = new THREE.Quaternion(), _frame = new THREE.Quaternion(), _v = new THREE.Vector3()
+  function placeOffset(obj: THREE.Object3D, root: THREE.Vector3, pose: PoseT, k: number) {
+    _v.fromArray(pose.p).applyQuaternion(_frame).add(root)
+    _q.fromArray(pose.q).premultiply(_frame)
+    if (k >= 1) { obj.position.copy(_v); obj.quaternion.copy(_q) }
+    else { obj.position.lerp(_v, k); obj.quaternion.slerp(_q, k) }
+  }
+
+  connect()
+
+  return {
+    get status() { return { ...status, peers: [...status.peers] } },
+    setPresenter: (on) => {
+      wantPresenter = on
+      send({ t: 'present', on })
+    },
+    setFollow: (on) => {
+      if (status.following === on) return
+      status.following = on
+      notify()
+    },
+    update: (dt) => {
+      if (!status.connected) return
+      sendClock += dt
+      if (sendClock >= 1 / SEND_HZ) { sendClock = 0; send({ t: 'pose', pose: host.localPose() }) }
+
+      _frame.copy(host.frame())
+      const k = 1 - Math.exp(-AVATAR_LERP * dt)
+      for (const a of avatars.values()) {
+        if (!a.pose) continue
+        const first = !a.group.visible
+        a.group.visible = true
+        const root = host.toWorld(a.pose.rig)
+        placeOffset(a.head, root, a.pose.head, first ? 1 : k)
+        a.hands.forEach((h, i) => {
+          const p = a.pose!.hands[i]
+          h.visible = !!p
+          if (p) placeOffset(h, root, p, first ? 1 : k)
+        })
+        a.label.position.copy(a.head.position).y += HEAD_RADIUS + LABEL_H
+      }
+
+      if (status.following && status.presenter && status.presenter !== status.id) {
+        const p = avatars.get(status.presenter)?.pose
+        if (p) host.follow(p, dt)
+      }
+    },
+    dispose: () => {
+      disposed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      const sock = ws; ws = null
+      sock?.close()
+      ;[...avatars.keys()].forEach(removeAvatar)
+      headGeom.dispose(); visorGeom.dispose(); handGeom.dispose(); visorMat.dispose()
+    },
+  }
+}
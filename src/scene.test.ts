@@ -0,0 +1,83 @@
+// src/scene.test.ts
+// Scene manifest validation: every problem reported at once, with field paths; unknown fields only warn.
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { parseSceneManifest, sceneToViewerConfig, sceneUrlFromLocation, DEFAULT_SCENE_URL } from './scene'
+
+const minimal = () => ({ version: 1, model: { url: 'model.glb' } })
+
+// the thrown message, for matching several problems at once
+function errorOf(data: unknown) {
+  try { parseSceneManifest(data, 'test.json') } catch (e) { return (e as Error).message }
+  throw new Error('expected parseSceneManifest to throw')
+}
+
+describe('parseSceneManifest', () => {
+  afterEach(() => { vi.restoreAllMocks() })
+
+  it('accepts a minimal manifest', () => {
+    const m = parseSceneManifest(minimal())
+    expect(m.model.url).toBe('model.glb')
+    expect(sceneToViewerConfig(m)).toMatchObject({ modelUrl: 'model.glb', showVRButton: true, collision: { enabled: true } })
+  })
+
+  it('rejects a non-object', () => {
+    expect(() => parseSceneManifest([], 'test.json')).toThrow('Invalid scene manifest (test.json): expected a JSON object at the top level')
+  })
+
+  it('requires the current version', () => {
+    expect(errorOf({ model: { url: 'a.glb' } })).toContain('scene.version: required (current version is 1)')
+    expect(errorOf({ ...minimal(), version: 2 })).toContain('scene.version: unsupported version 2 (this viewer reads version 1)')
+    expect(errorOf({ ...minimal(), version: '1' })).toContain('scene.version: unsupported version "1"')
+  })
+
+  it('requires a model url', () => {
+    expect(errorOf({ version: 1 })).toContain('scene.model: required object is missing')
+    expect(errorOf({ version: 1, model: {} })).toContain('scene.model.url: required string is missing')
+    expect(errorOf({ version: 1, model: { url: '  ' } })).toContain('scene.model.url: expected a non-empty string, got "  "')
+  })
+
+  it('reports wrong types and ranges together, with field paths', () => {
+    const msg = errorOf({
+      ...minimal(),
+      model: { url: 'a.glb', scale: 0 },
+      spawn: { position: [0, 1], eyeHeight: 'tall' },
+      hotspots: [{ id: 'h', title: 'Hall' }],
+      features: { vr: 'yes', zoomMode: 'pinch' },
+      measure: { units: 'cubits' },
+    })
+    expect(msg.split('\n- ').slice(1)).toEqual([
+      'scene.model.scale: 0 is out of range [0.001, 1000]',
+      'scene.spawn.position: expected [x, y, z] numbers, got [0,1]',
+      'scene.spawn.eyeHeight: expected a number, got "tall"',
+      'scene.hotspots[0].position: required [x, y, z] is missing',
+      'scene.measure.units: expected one of "metric", "imperial", got "cubits"',
+      'scene.features.vr: expected true or false, got "yes"',
+      'scene.features.zoomMode: expected one of "snap", "continuous", got "pinch"',
+    ])
+  })
+
+  it('checks cross references (environment preset, material default)', () => {
+    const msg = errorOf({
+      ...minimal(),
+      environment: { preset: 'night', presets: [{ id: 'dusk' }] },
+      materials: [{ id: 'floor', match: ['Floor*'], options: [{ name: 'Oak' }], default: 'Pine' }],
+    })
+    expect(msg).toContain('scene.environment.preset: "night" is not one of default, dusk')
+    expect(msg).toContain('scene.materials[0].default: "Pine" is not one of the slot\'s options')
+  })
+
+  it('warns about unknown fields and features without rejecting the manifest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const m = parseSceneManifest({ ...minimal(), colour: 'red', features: { teleport: true } }, 'test.json')
+    expect(m.model.url).toBe('model.glb')
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^\[scene\] test\.json: scene\.colour: unknown field \(ignored; expected one of /))
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^\[scene\] test\.json: scene\.features\.teleport: unknown field/))
+  })
+})
+
+describe('sceneUrlFromLocation', () => {
+  it('takes ?scene= over the default manifest', () => {
+    expect(sceneUrlFromLocation('?scene=/scenes/loft.json')).toBe('/scenes/loft.json')
+    expect(sceneUrlFromLocation('')).toBe(DEFAULT_SCENE_URL)
+  })
+})
@@ -0,0 +1,342 @@
+// src/scene.ts
+// Versioned scene manifest (JSON) -> ViewerConfig, so new client scenes ship without touching TypeScript.
+import type { Hotspot, KeyBindings, Vec3Tuple, ViewerConfig, ZoomMode } from './viewer'
+import type { Tour } from './tour'
+import type { MeasureUnits } from './measure'
+import type { MaterialSlot } from './variants'
+import type { EnvironmentPreset } from './environment'
+
+export const SCENE_MANIFEST_VERSION = 1
+export const DEFAULT_SCENE_URL = '/scenes/default.json'
+
+export type SceneTheme = {
+  accent?: string     // active buttons / highlights
+  panel?: string      // overlay panel background
+  text?: string       // overlay text colour
+}
+
+export type SceneFeatures = {
+  vr?: boolean
+  ar?: boolean
+  fovPresets?: boolean
+  dollhouse?: boolean
+  levelPicker?: boolean
+  scaleControl?: boolean
+  keyboard?: boolean
+  gamepad?: boolean
+  collision?: boolean
+  measure?: boolean
+  minimap?: boolean
+  section?: boolean
+  zoomMode?: ZoomMode
+}
+
+export type SceneManifest = {
+  version: 1
+  name?: string
+  model: { url: string; scale?: number }
+  navmesh?: { url: string }
+  // the default lighting preset, plus optional named alternatives switchable at runtime
+  environment?: Omit<EnvironmentPreset, 'id' | 'label'> & { presets?: EnvironmentPreset[]; preset?: string }
+  // position in the model file's coordinates, yaw in degrees
+  spawn?: { position?: Vec3Tuple; yaw?: number; eyeHeight?: number }
+  levels?: { id: string; name?: string; spawn?: Vec3Tuple; yaw?: number }[]
+  hotspots?: Hotspot[] // position in the model file's coordinates
+  tour?: Tour          // stop positions in the model file's coordinates, angles in degrees
+  measure?: { units?: MeasureUnits; metersPerUnit?: number }
+  materials?: MaterialSlot[] // swappable finishes; option `map` URLs relative to the manifest
+  ui?: { title?: string; theme?: SceneTheme }
+  features?: SceneFeatures
+  // visit analytics; `endpoint` receives batched JSON POSTs (server.mjs serves /analytics for testing)
+  analytics?: { enabled?: boolean; endpoint?: string; sampleHz?: number; batchSeconds?: number }
+}
+
+// ---- validation helpers (collect every problem, report them together)
+type Issues = { errors: string[]; warnings: string[] }
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+function checkKeys(o: Record<string, unknown>, path: string, allowed: string[], issues: Issues) {
+  for (const k of Object.keys(o)) {
+    if (!allowed.includes(k)) issues.warnings.push(`${path}.${k}: unknown field (ignored; expected one of ${allowed.join(', ')})`)
+  }
+}
+
+function obj(o: Record<string, unknown>, key: string, path: string, issues: Issues, required = false) {
+  const v = o[key]
+  if (v === undefined) { if (required) issues.errors.push(`${path}.${key}: required object is missing`); return undefined }
+  if (!isObj(v)) { issues.errors.push(`${path}.${key}: expected an object, got ${JSON.stringify(v)}`); return undefined }
+  return v
+}
+
+function str(o: Record<string, unknown>, key: string, path: string, issues: Issues, required = false) {
+  const v = o[key]
+  if (v === undefined) { if (required) issues.errors.push(`${path}.${key}: required string is missing`); return }
+  if (typeof v !== 'string' || v.trim() === '') issues.errors.push(`${path}.${key}: expected a non-empty string, got ${JSON.stringify(v)}`)
+}
+
+function num(o: Record<string, unknown>, key: string, path: string, issues: Issues, min = -Infinity, max = Infinity) {
+  const v = o[key]
+  if (v === undefined) return
+  if (typeof v !== 'number' || !isFinite(v)) issues.errors.push(`${path}.${key}: expected a number, got ${JSON.stringify(v)}`)
+  else if (v < min || v > max) issues.errors.push(`${path}.${key}: ${v} is out of range [${min}, ${max}]`)
+}
+
+function bool(o: Record<string, unknown>, key: string, path: string, issues: Issues) {
+  const v = o[key]
+  if (v !== undefined && typeof v !== 'boolean') issues.errors.push(`${path}.${key}: expected true or false, got ${JSON.stringify(v)}`)
+}
+
+function vec3(o: Record<string, unknown>, key: string, path: string, issues: Issues) {
+  const v = o[key]
+  if (v === undefined) return
+  if (!Array.isArray(v) || v.length !== 3 || v.some((n) => typeof n !== 'number' || !isFinite(n))) {
+    issues.errors.push(`${path}.${key}: expected [x, y, z] numbers, got ${JSON.stringify(v)}`)
+  }
+}
+
+function oneOf(o: Record<string, unknown>, key: string, path: string, values: string[], issues: Issues) {
+  const v = o[key]
+  if (v !== undefined && !values.includes(v as string)) issues.errors.push(`${path}.${key}: expected one of ${values.map((x) => `"${x}"`).join(', ')}, got ${JSON.stringify(v)}`)
+}
+
+// Validates parsed JSON; throws one Error listing every problem (field paths like `scene.model.url`).
+const ENV_FIELDS = ['hdri', 'background', 'exposure', 'rotation', 'backgroundBlur', 'backgroundIntensity', 'lights']
+
+function envPreset(e: Record<string, unknown>, path: string, issues: Issues) {
+  str(e, 'hdri', path, issues)
+  if (e.background !== undefined && typeof e.background !== 'boolean' && typeof e.background !== 'string') {
+    issues.errors.push(`${path}.background: expected true, false or a colour string, got ${JSON.stringify(e.background)}`)
+  }
+  num(e, 'exposure', path, issues, 0.01, 20); num(e, 'rotation', path, issues)
+  num(e, 'backgroundBlur', path, issues, 0, 1); num(e, 'backgroundIntensity', path, issues, 0, 20); num(e, 'lights', path, issues, 0, 20)
+}
+
+export function parseSceneManifest(data: unknown, source = 'scene'): SceneManifest {
+  const issues: Issues = { errors: [], warnings: [] }
+  const P = 'scene'
+
+  if (!isObj(data)) throw new Error(`Invalid scene manifest (${source}): expected a JSON object at the top level`)
+  checkKeys(data, P, ['$schema', 'version', 'name', 'model', 'navmesh', 'environment', 'spawn', 'levels', 'hotspots', 'tour', 'measure', 'materials', 'ui', 'features', 'analytics'], issues)
+
+  if (data.version === undefined) issues.errors.push(`${P}.version: required (current version is ${SCENE_MANIFEST_VERSION})`)
+  else if (data.version !== SCENE_MANIFEST_VERSION) {
+    issues.errors.push(`${P}.version: unsupported version ${JSON.stringify(data.version)} (this viewer reads version ${SCENE_MANIFEST_VERSION})`)
+  }
+  str(data, 'name', P, issues)
+
+  const model = obj(data, 'model', P, issues, true)
+  if (model) {
+    checkKeys(model, `${P}.model`, ['url', 'scale'], issues)
+    str(model, 'url', `${P}.model`, issues, true)
+    num(model, 'scale', `${P}.model`, issues, 0.001, 1000)
+  }
+
+  const navmesh = obj(data, 'navmesh', P, issues)
+  if (navmesh) { checkKeys(navmesh, `${P}.navmesh`, ['url'], issues); str(navmesh, 'url', `${P}.navmesh`, issues, true) }
+
+  const env = obj(data, 'environment', P, issues)
+  if (env) {
+    checkKeys(env, `${P}.environment`, [...ENV_FIELDS, 'presets', 'preset'], issues)
+    envPreset(env, `${P}.environment`, issues)
+    if (env.presets !== undefined) {
+      if (!Array.isArray(env.presets)) issues.errors.push(`${P}.environment.presets: expected an array of { id, label?, hdri?, exposure?, … }`)
+      else env.presets.forEach((e, i) => {
+        const ep = `${P}.environment.presets[${i}]`
+        if (!isObj(e)) { issues.errors.push(`${ep}: expected an object`); return }
+        checkKeys(e, ep, ['id', 'label', ...ENV_FIELDS], issues)
+        str(e, 'id', ep, issues, true); str(e, 'label', ep, issues)
+        if (e.id === 'default') issues.errors.push(`${ep}.id: "default" is reserved for the environment itself`)
+        envPreset(e, ep, issues)
+      })
+    }
+    str(env, 'preset', `${P}.environment`, issues)
+    const ids = ['default', ...(Array.isArray(env.presets) ? env.presets.map((e) => (isObj(e) ? e.id : undefined)) : [])]
+    if (typeof env.preset === 'string' && !ids.includes(env.preset)) issues.errors.push(`${P}.environment.preset: "${env.preset}" is not one of ${ids.join(', ')}`)
+  }
+
+  const spawn = obj(data, 'spawn', P, issues)
+  if (spawn) {
+    checkKeys(spawn, `${P}.spawn`, ['position', 'yaw', 'eyeHeight'], issues)
+    vec3(spawn, 'position', `${P}.spawn`, issues)
+    num(spawn, 'yaw', `${P}.spawn`, issues)
+    num(spawn, 'eyeHeight', `${P}.spawn`, issues, 0.5, 2.5)
+  }
+
+  if (data.levels !== undefined) {
+    if (!Array.isArray(data.levels)) issues.errors.push(`${P}.levels: expected an array of { id, name?, spawn?, yaw? }`)
+    else data.levels.forEach((l, i) => {
+      const lp = `${P}.levels[${i}]`
+      if (!isObj(l)) { issues.errors.push(`${lp}: expected an object`); return }
+      checkKeys(l, lp, ['id', 'name', 'spawn', 'yaw'], issues)
+      str(l, 'id', lp, issues, true); str(l, 'name', lp, issues); vec3(l, 'spawn', lp, issues); num(l, 'yaw', lp, issues)
+    })
+  }
+
+  if (data.hotspots !== undefined) {
+    if (!Array.isArray(data.hotspots)) issues.errors.push(`${P}.hotspots: expected an array of { id, position, title, description?, imageUrl? }`)
+    else data.hotspots.forEach((h, i) => {
+      const hp = `${P}.hotspots[${i}]`
+      if (!isObj(h)) { issues.errors.push(`${hp}: expected an object`); return }
+      checkKeys(h, hp, ['id', 'position', 'title', 'description', 'imageUrl'], issues)
+      str(h, 'id', hp, issues, true); str(h, 'title', hp, issues, true)
+      if (h.position === undefined) issues.errors.push(`${hp}.position: required [x, y, z] is missing`)
+      vec3(h, 'position', hp, issues)
+      str(h, 'description', hp, issues); str(h, 'imageUrl', hp, issues)
+    })
+  }
+
+  const tour = obj(data, 'tour', P, issues)
+  if (tour) {
+    checkKeys(tour, `${P}.tour`, ['name', 'stops', 'loop'], issues)
+    str(tour, 'name', `${P}.tour`, issues); bool(tour, 'loop', `${P}.tour`, issues)
+    if (!Array.isArray(tour.stops) || tour.stops.length === 0) issues.errors.push(`${P}.tour.stops: expected a non-empty array of { position, yaw?, pitch?, fov?, caption?, dwell? }`)
+    else tour.stops.forEach((st, i) => {
+      const sp = `${P}.tour.stops[${i}]`
+      if (!isObj(st)) { issues.errors.push(`${sp}: expected an object`); return }
+      checkKeys(st, sp, ['position', 'yaw', 'pitch', 'fov', 'caption', 'dwell'], issues)
+      if (st.position === undefined) issues.errors.push(`${sp}.position: required [x, y, z] is missing`)
+      vec3(st, 'position', sp, issues)
+      num(st, 'yaw', sp, issues); num(st, 'pitch', sp, issues, -85, 85); num(st, 'fov', sp, issues, 1, 179)
+      str(st, 'caption', sp, issues); num(st, 'dwell', sp, issues, 0, 600)
+    })
+  }
+
+  const measure = obj(data, 'measure', P, issues)
+  if (measure) {
+    checkKeys(measure, `${P}.measure`, ['units', 'metersPerUnit'], issues)
+    oneOf(measure, 'units', `${P}.measure`, ['metric', 'imperial'], issues)
+    num(measure, 'metersPerUnit', `${P}.measure`, issues, 1e-6, 1e6)
+  }
+
+  if (data.materials !== undefined) {
+    if (!Array.isArray(data.materials)) issues.errors.push(`${P}.materials: expected an array of { id, label?, match, options, default? }`)
+    else data.materials.forEach((m, i) => {
+      const mp = `${P}.materials[${i}]`
+      if (!isObj(m)) { issues.errors.push(`${mp}: expected an object`); return }
+      checkKeys(m, mp, ['id', 'label', 'match', 'options', 'default'], issues)
+      str(m, 'id', mp, issues, true); str(m, 'label', mp, issues); str(m, 'default', mp, issues)
+      if (!Array.isArray(m.match) || m.match.length === 0 || !m.match.every((x) => typeof x === 'string' && x !== '')) {
+        issues.errors.push(`${mp}.match: expected a non-empty array of mesh/material names (\`*\` wildcards allowed)`)
+      }
+      if (!Array.isArray(m.options) || m.options.length === 0) { issues.errors.push(`${mp}.options: expected a non-empty array of { name, color?, roughness?, metalness?, map?, repeat? }`); return }
+      m.options.forEach((o, j) => {
+        const op = `${mp}.options[${j}]`
+        if (!isObj(o)) { issues.errors.push(`${op}: expected an object`); return }
+        checkKeys(o, op, ['name', 'color', 'roughness', 'metalness', 'map', 'repeat'], issues)
+        str(o, 'name', op, issues, true); str(o, 'color', op, issues); str(o, 'map', op, issues)
+        num(o, 'roughness', op, issues, 0, 1); num(o, 'metalness', op, issues, 0, 1)
+        const r = o.repeat
+        if (r !== undefined && !(Array.isArray(r) && r.length === 2 && r.every((n) => typeof n === 'number' && isFinite(n) && n > 0))) {
+          issues.errors.push(`${op}.repeat: expected [u, v] positive numbers, got ${JSON.stringify(r)}`)
+        }
+      })
+      if (typeof m.default === 'string' && !m.options.some((o) => isObj(o) && o.name === m.default)) {
+        issues.errors.push(`${mp}.default: "${m.default}" is not one of the slot's options`)
+      }
+    })
+  }
+
+  const ui = obj(data, 'ui', P, issues)
+  if (ui) {
+    checkKeys(ui, `${P}.ui`, ['title', 'theme'], issues)
+    str(ui, 'title', `${P}.ui`, issues)
+    const theme = obj(ui, 'theme', `${P}.ui`, issues)
+    if (theme) {
+      checkKeys(theme, `${P}.ui.theme`, ['accent', 'panel', 'text'], issues)
+      for (const k of ['accent', 'panel', 'text']) str(theme, k, `${P}.ui.theme`, issues)
+    }
+  }
+
+  const features = obj(data, 'features', P, issues)
+  if (features) {
+    const flags = ['vr', 'ar', 'fovPresets', 'dollhouse', 'levelPicker', 'scaleControl', 'keyboard', 'gamepad', 'collision', 'measure', 'minimap', 'section']
+    checkKeys(features, `${P}.features`, [...flags, 'zoomMode'], issues)
+    for (const k of flags) bool(features, k, `${P}.features`, issues)
+    oneOf(features, 'zoomMode', `${P}.features`, ['snap', 'continuous'], issues)
+  }
+
+  const analytics = obj(data, 'analytics', P, issues)
+  if (analytics) {
+    checkKeys(analytics, `${P}.analytics`, ['enabled', 'endpoint', 'sampleHz', 'batchSeconds'], issues)
+    bool(analytics, 'enabled', `${P}.analytics`, issues)
+    str(analytics, 'endpoint', `${P}.analytics`, issues)
+    num(analytics, 'sampleHz', `${P}.analytics`, issues, 0.1, 30)
+    num(analytics, 'batchSeconds', `${P}.analytics`, issues, 1, 3600)
+  }
+
+  issues.warnings.forEach((w) => console.warn(`[scene] ${source}: ${w}`))
+  if (issues.errors.length) {
+    throw new Error(`Invalid scene manifest (${source}):\n- ${issues.errors.join('\n- ')}`)
+  }
+  return data as unknown as SceneManifest
+}
+
+// Asset URLs in a manifest are relative to the manifest itself.
+function resolveAssets(m: SceneManifest, base: string): SceneManifest {
+  const abs = (u: string) => new URL(u, base).href
+  return {
+    ...m,
+    model: { ...m.model, url: abs(m.model.url) },
+    navmesh: m.navmesh && { url: abs(m.navmesh.url) },
+    environment: m.environment && {
+      ...m.environment,
+      hdri: m.environment.hdri && abs(m.environment.hdri),
+      presets: m.environment.presets?.map((e) => ({ ...e, hdri: e.hdri && abs(e.hdri) })),
+    },
+    hotspots: m.hotspots?.map((h) => ({ ...h, imageUrl: h.imageUrl && abs(h.imageUrl) })),
+    materials: m.materials?.map((s) => ({ ...s, options: s.options.map((o) => ({ ...o, map: o.map && abs(o.map) })) })),
+  }
+}
+
+export async function loadSceneManifest(url: string): Promise<SceneManifest> {
+  const base = new URL(url, window.location.href).href
+  let res: Response
+  try { res = await fetch(base) }
+  catch (e) { throw new Error(`Could not fetch scene manifest ${url}: ${(e as Error).message}`) }
+  if (!res.ok) throw new Error(`Could not fetch scene manifest ${url}: HTTP ${res.status} ${res.statusText}`)
+
+  let json: unknown
+  try { json = await res.json() }
+  catch (e) { throw new Error(`Scene manifest ${url} is not valid JSON: ${(e as Error).message}`) }
+  return resolveAssets(parseSceneManifest(json, url), base)
+}
+
+// `?scene=<url>` wins over the default manifest
+export function sceneUrlFromLocation(search = window.location.search, fallback = DEFAULT_SCENE_URL) {
+  return new URLSearchParams(search).get('scene') || fallback
+}
+
+const MOVE_ACTIONS: (keyof KeyBindings)[] = ['forward', 'back', 'left', 'right', 'turnLeft', 'turnRight', 'run']
+
+function environmentPresets(m: SceneManifest): EnvironmentPreset[] {
+  const { presets, preset: _, ...base } = m.environment ?? {}
+  return [{ id: 'default', label: 'Default', ...base }, ...(presets ?? [])]
+}
+
+export function sceneToViewerConfig(m: SceneManifest): ViewerConfig {
+  const f = m.features ?? {}
+  return {
+    modelUrl: m.model.url,
+    initialModelScale: m.model.scale,
+    navmeshUrl: m.navmesh?.url,
+    environments: environmentPresets(m),
+    environment: m.environment?.preset,
+    initialEyeHeight: m.spawn?.eyeHeight,
+    spawn: m.spawn && { position: m.spawn.position, yaw: m.spawn.yaw },
+    levels: m.levels,
+    hotspots: m.hotspots,
+    tour: m.tour,
+    measure: m.measure,
+    materialSlots: m.materials,
+    minimap: { enabled: f.minimap ?? true },
+    showVRButton: f.vr ?? true,
+    showARButton: f.ar ?? true,
+    showFovButtons: f.fovPresets ?? true,
+    zoomMode: f.zoomMode,
+    collision: { enabled: f.collision ?? true },
+    gamepad: { enabled: f.gamepad ?? true },
+    analytics: m.analytics && { ...m.analytics, scene: m.name },
+    keyBindings: f.keyboard === false ? Object.fromEntries(MOVE_ACTIONS.map((a) => [a, []])) : undefined,
+  }
+}
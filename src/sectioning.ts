@@ -0,0 +1,429 @@
+// src/sectioning.ts
+// Section planes and a clipping box for cutting through the model. Everything lives in the model file's frame
+// (host.root); the world-space planes feed renderer.clippingPlanes. Cut faces are capped with the stencil trick
+// (back faces minus front faces of the model behind the cut), and drag handles move a plane or a box face
+// along its normal (desktop mouse, XR controller grip).
+import * as THREE from 'three'
+
+const HANDLE_RADIUS = 0.025  // fraction of the model's bounding diagonal
+const ARROW_LEN = 0.08       // kept-side arrow on a section plane (fraction of the diagonal)
+const CAP_EPS = 1e-4         // caps sit this far (fraction of the diagonal) on the kept side, clear of their own plane
+const BOX_MARGIN = 0.02      // clipping box fitted to the model bounds, grown by this fraction
+const BOX_MIN_SIZE = 0.01    // box faces stop this close (fraction of the diagonal)
+const DRAG_SLACK = 0.25      // planes / box faces can be dragged this far past the model bounds (fraction of the diagonal)
+const CAP_COLOR = 0xcbd5e1
+const GIZMO_COLOR = 0x60a5fa
+const GIZMO_HOVER = 0xfbbf24
+const STENCIL_ORDER = 10     // render order: back faces, front faces, then caps (after the model's opaque pass)
+
+export type SectionAxis = 'x' | 'y' | 'z'
+export type Vec3T = [number, number, number]
+
+// model file coordinates; the normal points at the side that stays visible
+export type SectionPlane = { id: string; normal: Vec3T; point: Vec3T }
+export type ClipBox = { min: Vec3T; max: Vec3T }
+
+export type SectionStatus = {
+  planes: SectionPlane[]
+  box: ClipBox | null
+  caps: boolean
+  gizmos: boolean
+}
+
+export type SectioningHost = {
+  root: THREE.Object3D                    // model file frame (child of the world); caps and gizmos are added here
+  model: THREE.Object3D | undefined       // meshes the caps are computed from (closed solids cap cleanly)
+  bounds: THREE.Box3                      // model bounds in model file coordinates
+  onChange: (s: SectionStatus) => void    // planes added / removed / flipped, box changed, drag ended
+}
+
+export type SectioningOptions = {
+  caps?: boolean                          // default true
+  capColor?: THREE.ColorRepresentation
+}
+
+export type Sectioning = {
+  readonly status: SectionStatus
+  readonly planes: THREE.Plane[]          // world space, refreshed by update(); same objects until the set changes
+  addPlane: (normal: SectionAxis | Vec3T, point?: Vec3T) => string // axis planes keep the lower / negative side
+  removePlane: (id: string) => void
+  flipPlane: (id: string) => void
+  setBox: (box: ClipBox | boolean) => void // true: fit the model bounds; false: remove
+  clear: () => void
+  setCaps: (on: boolean) => void
+  setGizmos: (on: boolean) => void
+  pick: (rc: THREE.Raycaster) => string | null // handle under the ray (gizmos are drawn on top, so they win)
+  hover: (handle: string | null) => void
+  grab: (handle: string, ray: THREE.Ray) => boolean
+  drag: (ray: THREE.Ray) => void
+  release: () => void
+  update: () => void                      // per frame, before raycasts: world planes from the root's transform
+  dispose: () => void
+}
+
+type Handle = {
+  mesh: THREE.Mesh<THREE.SphereGeometry, THREE.ShaderMaterial>
+  axis: THREE.Vector3 // unit, model file frame
+  get: () => number
+  set: (v: number) => void
+}
+type Cut = { local: THREE.Plane; world: THREE.Plane; cap: THREE.Mesh }
+type Section = { id: string; normal: THREE.Vector3; point: THREE.Vector3; cut: Cut; gizmo: THREE.Group; outline: THREE.LineLoop; arrow: THREE.Line; handle: string }
+
+const AXES: Record<SectionAxis, Vec3T> = { x: [-1, 0, 0], y: [0, -1, 0], z: [0, 0, -1] }
+
+// unlit overlay colour; ShaderMaterial skips the global clipping planes unless `clipping` is set, so gizmos stay on the cut
+function gizmoMaterial(color: number, opacity: number) {
+  return new THREE.ShaderMaterial({
+    uniforms: { color: { value: new THREE.Color(color).convertLinearToSRGB() }, opacity: { value: opacity } },
+    vertexShader: /* glsl */`
+      void main() { gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0); }`,
+    fragmentShader: /* glsl */`
+      uniform vec3 color;
+      uniform float opacity;
+      void main() { gl_FragColor = vec4(color, opacity); }`,
+    transparent: true, depthTest: false, depthWrite: false,
+  })
+}
+
+// stencil pass: counts the model's back faces up, front faces down (clamped), no colour or depth
+function stencilMaterial(side: THREE.Side, op: THREE.StencilOp) {
+  return new THREE.MeshBasicMaterial({
+    side, colorWrite: false, depthWrite: false, depthTest: false,
+    stencilWrite: true, stencilFunc: THREE.AlwaysStencilFunc, stencilFail: op, stencilZFail: op, stencilZPass: op,
+  })
+}
+
+// parameter along the line `o + s·u` (u unit) closest to the ray; null when the ray runs along the line
+const _w = new THREE.Vector3()
+function axisParam(o: THREE.Vector3, u: THREE.Vector3, ray: THREE.Ray) {
+  _w.subVectors(o, ray.origin)
+  const b = u.dot(ray.direction), c = ray.direction.dot(ray.direction), d = u.dot(_w), e = ray.direction.dot(_w)
+  const den = c - b * b
+  return Math.abs(den) < 1e-6 ? null : (b * e - c * d) / den
+}
+
+export function createSectioning(host: SectioningHost, opts: SectioningOptions = {}): Sectioning {
+  const bounds = host.bounds.isEmpty() ? new THREE.Box3(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1)) : host.bounds.clone()
+  const center = bounds.getCenter(new THREE.Vector3())
+  const diag = Math.max(1e-6, bounds.getSize(new THREE.Vector3()).length())
+  const limits = bounds.clone().expandByScalar(diag * DRAG_SLACK)
+
+  let caps = opts.caps ?? true
+  let gizmos = true
+  let nextId = 1
+  const sections: Section[] = []
+  let box: { min: THREE.Vector3; max: THREE.Vector3; cuts: Cut[]; edges: THREE.LineSegments; handles: string[] } | null = null
+  let planes: THREE.Plane[] = []
+  const handles = new Map<string, Handle>()
+  let hovered: string | null = null
+  let drag: { handle: Handle; origin: THREE.Vector3; s0: number; v0: number } | null = null
+
+  const capRoot = new THREE.Group(); capRoot.name = 'SectionCaps'
+  const gizmoRoot = new THREE.Group(); gizmoRoot.name = 'SectionGizmos'
+  host.root.add(capRoot, gizmoRoot)
+
+  const capGeom = new THREE.PlaneGeometry(1, 1)
+  const capMat = new THREE.MeshStandardMaterial({
+    color: opts.capColor ?? CAP_COLOR, roughness: 0.9, metalness: 0,
+    stencilWrite: true, stencilRef: 0, stencilFunc: THREE.NotEqualStencilFunc, // only where the cut is inside a solid
+  })
+  const handleGeom = new THREE.SphereGeometry(1, 16, 12)
+  const lineMat = gizmoMaterial(GIZMO_COLOR, 0.8)
+  const backMat = stencilMaterial(THREE.BackSide, THREE.IncrementStencilOp)
+  const frontMat = stencilMaterial(THREE.FrontSide, THREE.DecrementStencilOp)
+  let stencilMeshes: THREE.Mesh[] = []
+
+  const toTuple = (v: THREE.Vector3) => v.toArray() as Vec3T
+  const status = (): SectionStatus => ({
+    planes: sections.map((s) => ({ id: s.id, normal: toTuple(s.normal), point: toTuple(s.point) })),
+    box: box ? { min: toTuple(box.min), max: toTuple(box.max) } : null,
+    caps, gizmos,
+  })
+  const notify = () => host.onChange(status())
+
+  function makeCut(): Cut {
+    const cap = new THREE.Mesh(capGeom, capMat)
+    cap.renderOrder = STENCIL_ORDER + 2
+    cap.raycast = () => {}
+    capRoot.add(cap)
+    return { local: new THREE.Plane(), world: new THREE.Plane(), cap }
+  }
+  function dropCut(c: Cut) { capRoot.remove(c.cap) }
+
+  // cap: a quad on the plane covering the model, facing the removed side (where the viewer looks into the cut)
+  const _zAxis = new THREE.Vector3(0, 0, 1), _capN = new THREE.Vector3()
+  function layoutCut(c: Cut, normal: THREE.Vector3, point: THREE.Vector3) {
+    c.local.setFromNormalAndCoplanarPoint(normal, point)
+    c.local.projectPoint(center, c.cap.position).addScaledVector(normal, diag * CAP_EPS)
+    c.cap.quaternion.setFromUnitVectors(_zAxis, _capN.copy(normal).negate())
+    c.cap.scale.setScalar(diag * 2)
+  }
+
+  function addHandle(key: string, parent: THREE.Object3D, axis: THREE.Vector3, get: () => number, set: (v: number) => void) {
+    const mesh = new THREE.Mesh(handleGeom, gizmoMaterial(GIZMO_COLOR, 0.95))
+    mesh.scale.setScalar(diag * HANDLE_RADIUS)
+    mesh.renderOrder = 1004
+    mesh.userData.sectionHandle = key
+    parent.add(mesh)
+    handles.set(key, { mesh, axis, get, set })
+  }
+  function dropHandle(key: string) {
+    const h = handles.get(key)
+    if (!h) return
+    h.mesh.removeFromParent(); h.mesh.material.dispose()
+    handles.delete(key)
+    if (hovered === key) hovered = null
+    if (drag?.handle === h) drag = null
+  }
+
+  function layoutSection(s: Section) {
+    layoutCut(s.cut, s.normal, s.point)
+    // outline square through the point, spanning the model; arrow toward the kept side
+    const h = handles.get(s.handle)!
+    h.axis.copy(s.normal)
+    h.mesh.position.copy(s.point)
+    s.outline.position.copy(s.point)
+    s.outline.quaternion.setFromUnitVectors(_zAxis, s.normal)
+    s.outline.scale.setScalar(diag)
+    s.arrow.position.copy(s.point)
+    s.arrow.quaternion.copy(s.outline.quaternion)
+    s.arrow.scale.setScalar(diag * ARROW_LEN)
+  }
+
+  const _corner = new THREE.Vector3(), _axis = new THREE.Vector3()
+  function layoutBox() {
+    if (!box) return
+    const { min, max, cuts } = box
+    for (let i = 0; i < 3; i++) {
+      _axis.set(0, 0, 0).setComponent(i, 1)
+      layoutCut(cuts[i * 2], _axis, min)
+      layoutCut(cuts[i * 2 + 1], _axis.negate(), max)
+      // face handles at the face centres
+      handles.get(box.handles[i * 2])!.mesh.position.addVectors(min, max).multiplyScalar(0.5).setComponent(i, min.getComponent(i))
+      handles.get(box.handles[i * 2 + 1])!.mesh.position.addVectors(min, max).multiplyScalar(0.5).setComponent(i, max.getComponent(i))
+    }
+    box.edges.position.addVectors(min, max).multiplyScalar(0.5)
+    box.edges.scale.subVectors(max, min)
+  }
+
+  // world planes: the renderer clips to the intersection (inside the box, on the kept side of every plane)
+  function rebuildPlanes() {
+    planes = [...sections.map((s) => s.cut.world), ...(box ? box.cuts.map((c) => c.world) : [])]
+    syncStencil()
+    update()
+  }
+
+  function update() {
+    host.root.updateWorldMatrix(true, false)
+    for (const s of sections) s.cut.world.copy(s.cut.local).applyMatrix4(host.root.matrixWorld)
+    if (box) for (const c of box.cuts) c.world.copy(c.local).applyMatrix4(host.root.matrixWorld)
+    capRoot.visible = caps && planes.length > 0
+    gizmoRoot.visible = gizmos
+  }
+
+  // stencil copies of every model mesh, only while something is cut and caps are on
+  function syncStencil() {
+    const want = caps && planes.length > 0 && !!host.model
+    if (want === stencilMeshes.length > 0) return
+    if (!want) {
+      for (const m of stencilMeshes) m.removeFromParent()
+      stencilMeshes = []
+      return
+    }
+    const sources: THREE.Mesh[] = []
+    host.model!.traverse((o) => {
+      const m = o as THREE.Mesh
+      if (m.isMesh && !(m as THREE.SkinnedMesh).isSkinnedMesh && !(m as THREE.InstancedMesh).isInstancedMesh) sources.push(m)
+    })
+    for (const src of sources) {
+      for (const [mat, order] of [[backMat, STENCIL_ORDER], [frontMat, STENCIL_ORDER + 1]] as const) {
+        const m = new THREE.Mesh(src.geometry, mat)
+        m.renderOrder = order
+        m.raycast = () => {} // invisible to picking, collision and measuring
+        src.add(m)
+        stencilMeshes.push(m)
+      }
+    }
+  }
+
+  function addPlane(normal: SectionAxis | Vec3T, point?: Vec3T) {
+    const n = new THREE.Vector3(...(typeof normal === 'string' ? AXES[normal] : normal))
+    if (n.lengthSq() < 1e-12) { console.warn('[viewer] section plane needs a non-zero normal'); n.set(0, -1, 0) }
+    n.normalize()
+    const id = `section-${nextId++}`
+    const gizmo = new THREE.Group(); gizmo.name = `Section_${id}`
+    const outline = new THREE.LineLoop(
+      new THREE.BufferGeometry().setFromPoints([[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]].map(([x, y]) => new THREE.Vector3(x, y, 0))),
+      lineMat,
+    )
+    const arrow = new THREE.Line(new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3(0, 0, 1)]), lineMat)
+    outline.renderOrder = arrow.renderOrder = 1003
+    gizmo.add(outline, arrow)
+    gizmoRoot.add(gizmo)
+    const s: Section = { id, normal: n, point: point ? new THREE.Vector3(...point) : center.clone(), cut: makeCut(), gizmo, outline, arrow, handle: `plane:${id}` }
+    // the handle slides the plane along its normal, within the model bounds (plus some slack)
+    const range = () => {
+      let lo = Infinity, hi = -Infinity
+      for (let i = 0; i < 8; i++) {
+        const d = _corner.set(i & 1 ? limits.max.x : limits.min.x, i & 2 ? limits.max.y : limits.min.y, i & 4 ? limits.max.z : limits.min.z).dot(s.normal)
+        lo = Math.min(lo, d); hi = Math.max(hi, d)
+      }
+      return [lo, hi]
+    }
+    addHandle(s.handle, gizmo, new THREE.Vector3(), () => s.point.dot(s.normal), (v) => {
+      const [lo, hi] = range()
+      s.point.addScaledVector(s.normal, THREE.MathUtils.clamp(v, lo, hi) - s.point.dot(s.normal))
+      layoutSection(s)
+    })
+    sections.push(s)
+    layoutSection(s)
+    rebuildPlanes()
+    notify()
+    return id
+  }
+
+  function removeSection(s: Section) {
+    dropHandle(s.handle)
+    dropCut(s.cut)
+    s.gizmo.removeFromParent()
+    s.outline.geometry.dispose(); s.arrow.geometry.dispose()
+    sections.splice(sections.indexOf(s), 1)
+  }
+
+  function removeBox() {
+    if (!box) return
+    box.cuts.forEach(dropCut)
+    box.handles.forEach(dropHandle)
+    box.edges.removeFromParent(); box.edges.geometry.dispose()
+    box = null
+  }
+
+  function setBox(b: ClipBox | boolean) {
+    if (b === false) { if (!box) return; removeBox() }
+    else {
+      const min = b === true ? bounds.min.clone().subScalar(diag * BOX_MARGIN) : new THREE.Vector3(...b.min)
+      const max = b === true ? bounds.max.clone().addScalar(diag * BOX_MARGIN) : new THREE.Vector3(...b.max)
+      if (!box) {
+        const edges = new THREE.LineSegments(new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)), lineMat)
+        edges.renderOrder = 1003
+        edges.name = 'ClipBox'
+        gizmoRoot.add(edges)
+        box = { min, max, cuts: Array.from({ length: 6 }, makeCut), edges, handles: [] }
+        const bx = box
+        for (let i = 0; i < 3; i++) {
+          for (const side of ['min', 'max'] as const) {
+            const key = `box:${'xyz'[i]}${side === 'min' ? '-' : '+'}`
+            const minSize = diag * BOX_MIN_SIZE
+            addHandle(key, gizmoRoot, new THREE.Vector3().setComponent(i, 1), () => bx[side].getComponent(i), (v) => {
+              const lo = side === 'min' ? limits.min.getComponent(i) : bx.min.getComponent(i) + minSize
+              const hi = side === 'min' ? bx.max.getComponent(i) - minSize : limits.max.getComponent(i)
+              bx[side].setComponent(i, THREE.MathUtils.clamp(v, lo, hi))
+              layoutBox()
+            })
+            bx.handles.push(key)
+          }
+        }
+      } else {
+        box.min.copy(min); box.max.copy(max)
+      }
+      box.min.min(_corner.copy(box.max).subScalar(diag * BOX_MIN_SIZE))
+      layoutBox()
+    }
+    rebuildPlanes()
+    notify()
+  }
+
+  function clear() {
+    if (!sections.length && !box) return
+    while (sections.length) removeSection(sections[0])
+    removeBox()
+    rebuildPlanes()
+    notify()
+  }
+
+  const _inv = new THREE.Matrix4(), _ray = new THREE.Ray()
+  const localRay = (ray: THREE.Ray) => _ray.copy(ray).applyMatrix4(_inv.copy(host.root.matrixWorld).invert())
+  const handleList = () => [...handles.values()].map((h) => h.mesh)
+
+  return {
+    get status() { return status() },
+    get planes() { return planes },
+    addPlane,
+    removePlane: (id) => {
+      const s = sections.find((x) => x.id === id)
+      if (!s) return
+      removeSection(s)
+      rebuildPlanes()
+      notify()
+    },
+    flipPlane: (id) => {
+      const s = sections.find((x) => x.id === id)
+      if (!s) return
+      s.normal.negate()
+      layoutSection(s)
+      update()
+      notify()
+    },
+    setBox,
+    clear,
+    setCaps: (on) => {
+      if (caps === on) return
+      caps = on
+      syncStencil()
+      update()
+      notify()
+    },
+    setGizmos: (on) => {
+      if (gizmos === on) return
+      gizmos = on
+      if (!on) drag = null
+      update()
+      notify()
+    },
+    pick: (rc) => {
+      if (!gizmos || !handles.size) return null
+      host.root.updateWorldMatrix(true, true)
+      const hit = rc.intersectObjects(handleList(), false)[0]
+      return hit ? (hit.object.userData.sectionHandle as string) : null
+    },
+    hover: (key) => {
+      if (key === hovered) return
+      for (const k of [hovered, key]) {
+        const h = k ? handles.get(k) : undefined
+        h?.mesh.material.uniforms.color.value.setHex(k === key ? GIZMO_HOVER : GIZMO_COLOR).convertLinearToSRGB()
+      }
+      hovered = key
+    },
+    grab: (key, ray) => {
+      const h = handles.get(key)
+      if (!h || !gizmos) return false
+      const origin = h.mesh.position.clone()
+      const s0 = axisParam(origin, h.axis, localRay(ray))
+      if (s0 === null) return false
+      drag = { handle: h, origin, s0, v0: h.get() }
+      return true
+    },
+    drag: (ray) => {
+      if (!drag) return
+      const s = axisParam(drag.origin, drag.handle.axis, localRay(ray))
+      if (s === null) return
+      drag.handle.set(drag.v0 + s - drag.s0)
+      update()
+    },
+    release: () => {
+      if (!drag) return
+      drag = null
+      notify()
+    },
+    update,
+    dispose: () => {
+      while (sections.length) removeSection(sections[0])
+      removeBox()
+      planes = []
+      syncStencil()
+      capRoot.removeFromParent(); gizmoRoot.removeFromParent()
+      capGeom.dispose(); capMat.dispose(); handleGeom.dispose(); lineMat.dispose(); backMat.dispose(); frontMat.dispose()
+    },
+  }
+}
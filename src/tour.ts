@@ -0,0 +1,221 @@
+// src/tour.ts
+import * as THREE from 'three'
+import type { Vec3Tuple } from './viewer'
+
+// ---- pacing
+const TOUR_SPEED = 1.2              // glide speed between stops (m/s)
+const TOUR_TURN_SPEED = Math.PI / 3 // rad/s, so turning on the spot doesn't snap
+const TOUR_MIN_SEC = 1.5
+const TOUR_MAX_SEC = 8
+const DEFAULT_DWELL_SEC = 4
+
+// One stop; position in the model file's coordinates, angles in degrees. Omitted yaw/pitch/fov keep the current view.
+export type TourStop = {
+  position: Vec3Tuple
+  yaw?: number
+  pitch?: number
+  fov?: number
+  caption?: string
+  dwell?: number // seconds spent at the stop (default 4)
+}
+
+export type Tour = {
+  name?: string
+  stops: TourStop[]
+  loop?: boolean
+}
+
+export type TourStatus = {
+  name?: string
+  index: number            // stop being approached ('moving') or shown ('dwell')
+  count: number
+  phase: 'moving' | 'dwell'
+  paused: boolean
+  caption: string | null   // shown once the stop is reached
+}
+
+// What the tour drives; supplied by the viewer.
+export type TourHost = {
+  rig: THREE.Object3D
+  yaw: THREE.Object3D
+  pitch: THREE.Object3D
+  getFov: () => number
+  setFov: (deg: number) => void
+  toWorld: (p: Vec3Tuple) => THREE.Vector3 // standing position on the floor (world)
+  isXR: () => boolean
+  route: (from: THREE.Vector3, to: THREE.Vector3) => THREE.Vector3[] | null // walkable waypoints to `to` (world), null if unreachable
+  levelAt: (p: THREE.Vector3) => string | null                                // floor id of a world position
+  floorHeight: (x: number, z: number, nearY: number) => number | null        // navmesh surface height (world)
+  fadeTeleport: (action: () => void) => void
+  onArrive: () => void
+  onChange: (s: TourStatus | null) => void
+}
+
+export type TourPlayer = {
+  readonly status: TourStatus | null
+  readonly active: boolean
+  play: (tour: Tour) => void
+  pause: () => void
+  resume: () => void
+  skip: () => void
+  stop: () => void
+  update: (dt: number) => void
+}
+
+type Pose = { pos: THREE.Vector3; yaw: number; pitch: number; fov: number }
+type Leg = { from: Pose; to: Pose; t: number; dur: number; path: THREE.Vector3[]; lengths: number[] } // lengths: cumulative along path
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2)
+// signed shortest rotation from a to b
+const angleDelta = (a: number, b: number) => THREE.MathUtils.euclideanModulo(b - a + Math.PI, Math.PI * 2) - Math.PI
+
+// point at `d` along a polyline with cumulative segment lengths
+function pointAlong(path: THREE.Vector3[], lengths: number[], d: number, out: THREE.Vector3) {
+  let i = 1
+  while (i < path.length - 1 && lengths[i] < d) i++
+  const seg = lengths[i] - lengths[i - 1]
+  return out.lerpVectors(path[i - 1], path[i], seg > 0 ? THREE.MathUtils.clamp((d - lengths[i - 1]) / seg, 0, 1) : 1)
+}
+
+// Plays a tour on the viewer's rig: eased glides along the navmesh on desktop, fade teleports in XR and between floors.
+export function createTourPlayer(host: TourHost): TourPlayer {
+  let tour: Tour | null = null
+  let index = 0
+  let phase: TourStatus['phase'] = 'moving'
+  let paused = false
+  let dwellLeft = 0
+  let leg: Leg | null = null
+
+  function status(): TourStatus | null {
+    if (!tour) return null
+    return {
+      name: tour.name,
+      index,
+      count: tour.stops.length,
+      phase,
+      paused,
+      caption: phase === 'dwell' ? (tour.stops[index].caption ?? null) : null,
+    }
+  }
+  const emit = () => host.onChange(status())
+
+  function currentPose(): Pose {
+    return { pos: host.rig.position.clone(), yaw: host.yaw.rotation.y, pitch: host.pitch.rotation.x, fov: host.getFov() }
+  }
+
+  function targetPose(stop: TourStop, from: Pose): Pose {
+    return {
+      pos: host.toWorld(stop.position),
+      yaw: stop.yaw !== undefined ? from.yaw + angleDelta(from.yaw, THREE.MathUtils.degToRad(stop.yaw)) : from.yaw,
+      pitch: stop.pitch !== undefined ? THREE.MathUtils.degToRad(stop.pitch) : from.pitch,
+      fov: stop.fov ?? from.fov,
+    }
+  }
+
+  function applyPose(p: Pose) {
+    host.rig.position.copy(p.pos)
+    host.yaw.rotation.y = p.yaw
+    host.pitch.rotation.x = p.pitch
+    host.setFov(p.fov)
+  }
+
+  function arrive() {
+    leg = null
+    phase = 'dwell'
+    dwellLeft = tour!.stops[index].dwell ?? DEFAULT_DWELL_SEC
+    host.onArrive()
+    emit()
+  }
+
+  // walkable route for a glide on one floor, else null (jump)
+  function legPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    if (host.levelAt(from) !== host.levelAt(to)) return null
+    const route = host.route(from, to)
+    if (!route || route.length === 0) return null
+    return [from.clone(), ...route.slice(0, -1), to.clone()]
+  }
+
+  function startLeg(i: number) {
+    index = i
+    phase = 'moving'
+    const from = currentPose()
+    const to = targetPose(tour!.stops[i], from)
+    const xr = host.isXR()
+    const path = xr ? null : legPath(from.pos, to.pos)
+    if (!path) {
+      // fade out, jump, fade in: no camera motion in a headset (head pitch/FOV belong to the user),
+      // and no gliding through walls or floor slabs when the stop can't be walked to on this floor.
+      // The dwell starts once the jump has happened, not while the screen is still fading out.
+      leg = null
+      const playing = tour
+      emit()
+      host.fadeTeleport(() => {
+        if (tour !== playing || index !== i || phase !== 'moving') return // stopped / skipped during the fade
+        if (xr) { host.rig.position.copy(to.pos); host.yaw.rotation.y = to.yaw }
+        else applyPose(to)
+        arrive()
+      })
+      return
+    }
+    const lengths = [0]
+    for (let k = 1; k < path.length; k++) lengths.push(lengths[k - 1] + path[k].distanceTo(path[k - 1]))
+    const dur = Math.max(lengths[lengths.length - 1] / TOUR_SPEED, Math.abs(to.yaw - from.yaw) / TOUR_TURN_SPEED)
+    leg = { from, to, t: 0, dur: THREE.MathUtils.clamp(dur, TOUR_MIN_SEC, TOUR_MAX_SEC), path, lengths }
+    emit()
+  }
+
+  function next() {
+    if (!tour) return
+    if (index + 1 < tour.stops.length) startLeg(index + 1)
+    else if (tour.loop) startLeg(0)
+    else stop()
+  }
+
+  function stop() {
+    if (!tour) return
+    tour = null
+    leg = null
+    paused = false
+    emit()
+  }
+
+  function update(dt: number) {
+    if (!tour || paused) return
+    if (leg) {
+      // entered XR mid-glide: finish the leg with a fade instead
+      if (host.isXR()) { startLeg(index); return }
+      leg.t = Math.min(1, leg.t + dt / leg.dur)
+      const k = easeInOutCubic(leg.t)
+      const { from, to, path, lengths } = leg
+      // follow the route's waypoints at navmesh height (ramps / stairs between them)
+      const pos = pointAlong(path, lengths, k * lengths[lengths.length - 1], new THREE.Vector3())
+      pos.y = leg.t >= 1 ? to.pos.y : (host.floorHeight(pos.x, pos.z, pos.y) ?? pos.y)
+      applyPose({
+        pos,
+        yaw: THREE.MathUtils.lerp(from.yaw, to.yaw, k),
+        pitch: THREE.MathUtils.lerp(from.pitch, to.pitch, k),
+        fov: THREE.MathUtils.lerp(from.fov, to.fov, k),
+      })
+      if (leg.t >= 1) arrive()
+    } else if (phase === 'dwell') {
+      dwellLeft -= dt
+      if (dwellLeft <= 0) next()
+    }
+  }
+
+  return {
+    get status() { return status() },
+    get active() { return tour !== null },
+    play: (t) => {
+      if (t.stops.length === 0) { console.warn('[viewer] tour has no stops'); return }
+      tour = t
+      paused = false
+      startLeg(0)
+    },
+    pause: () => { if (tour && !paused) { paused = true; emit() } },
+    resume: () => { if (tour && paused) { paused = false; emit() } },
+    skip: () => { if (tour) { paused = false; next() } },
+    stop,
+    update,
+  }
+}
@@ -1,11 +1,11 @@
 declare module 'three-pathfinding' {
   import { BufferGeometry, Vector3 } from 'three';
   export class Pathfinding {
-    static createZone(geom: BufferGeometry): any;
+    static createZone(geom: BufferGeometry, tolerance?: number): any;
     setZoneData(name: string, zone: any): void;
-    getGroup(name: string, position: Vector3): number;
-    getClosestNode(position: Vector3, name: string, groupID: number): any;
-    clampStep(start: Vector3, end: Vector3, node: any, name: string, groupID: number): Vector3;
+    getGroup(name: string, position: Vector3, checkPolygon?: boolean): number | null;
+    getClosestNode(position: Vector3, name: string, groupID: number, checkPolygon?: boolean): any;
+    clampStep(start: Vector3, end: Vector3, node: any, name: string, groupID: number, endTarget: Vector3): any;
     findPath(start: Vector3, end: Vector3, name: string, groupID: number): Vector3[] | null;
   }
 }
@@ -1,26 +1,95 @@
 // src/ui/App.tsx
 import React, { useEffect, useRef, useState } from 'react'
-import { initViewer, disposeViewer, type ViewerHandle } from '../viewer'
+import { initViewer, disposeViewer, MODEL_SCALE_MAX, MODEL_SCALE_MIN, type Hotspot, type Vec3Tuple, type ViewerAsset, type ViewerHandle, type ViewerMode } from '../viewer'
+import { loadSceneManifest, sceneToViewerConfig, sceneUrlFromLocation, type SceneManifest } from '../scene'
+import type { TourStatus } from '../tour'
+import type { Measurement, MeasureUnits } from '../measure'
+import type { MaterialSlotState } from '../variants'
+import { viewLink, viewStateFromLocation } from '../viewLink'
+import { multiplayerFromLocation, type MultiplayerStatus } from '../multiplayer'
+import type { AnalyticsOverlay, AnalyticsSummary } from '../analytics'
+import type { SectionAxis, SectionPlane, SectionStatus } from '../sectioning'
 
 export default function App() {
   const mountRef = useRef<HTMLDivElement>(null)
+  const minimapRef = useRef<HTMLDivElement>(null)
   const [status, setStatus] = useState<string>('Loading…')
   const [handle, setHandle] = useState<ViewerHandle | null>(null)
   const [scale, setScale] = useState<number>(0.25) // UI scale (25% by default)
+  const [level, setLevel] = useState<string | null>(null)
+  const [mode, setMode] = useState<ViewerMode>('firstPerson')
+  const [scene, setScene] = useState<SceneManifest | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [hotspot, setHotspot] = useState<Hotspot | null>(null)
+  const [tour, setTour] = useState<TourStatus | null>(null)
+  const [measuring, setMeasuring] = useState(false)
+  const [measurements, setMeasurements] = useState<Measurement[]>([])
+  const [units, setUnits] = useState<MeasureUnits>('metric')
+  const [copied, setCopied] = useState(false)
+  const [progress, setProgress] = useState<Partial<Record<ViewerAsset, { loaded: number; total: number }>>>({})
+  const [envId, setEnvId] = useState<string | null>(null)
+  const [exposure, setExposure] = useState(1)
+  const [finishes, setFinishes] = useState<{ variant: string | null; slots: MaterialSlotState[] }>({ variant: null, slots: [] })
+  const [room, setRoom] = useState<MultiplayerStatus | null>(null)
+  const [visits, setVisits] = useState<AnalyticsSummary | null>(null)
+  const [overlays, setOverlays] = useState<AnalyticsOverlay[]>([])
+  const [announcement, setAnnouncement] = useState('')
+  const [sectionOpen, setSectionOpen] = useState(false)
+  const [section, setSection] = useState<SectionStatus | null>(null)
 
   useEffect(() => {
+    // unmounted while still loading (StrictMode, hot reload): dispose as soon as init resolves
+    let unmounted = false
     let cleanup = () => {}
     ;(async () => {
       if (!mountRef.current) return
+      // scene manifest (?scene=<url> or the default) drives assets, theme and features
+      let manifest: SceneManifest
+      try {
+        manifest = await loadSceneManifest(sceneUrlFromLocation())
+      } catch (e) {
+        if (unmounted) return
+        console.error(e)
+        setStatus('Scene failed to load')
+        setError((e as Error).message)
+        return
+      }
+      if (unmounted || !mountRef.current) return
+      setScene(manifest)
+      if (manifest.ui?.title) document.title = manifest.ui.title
+      const view = viewStateFromLocation() // shared link (#pos=…&yaw=…)
+      const initialScale = view?.scale ?? manifest.model.scale ?? 1
+      setScale(initialScale)
+      setUnits(manifest.measure?.units ?? 'metric')
+
       try {
         const h = await initViewer(mountRef.current, {
-          modelUrl: '/assets/model.glb',
-          hdriUrl: '/assets/studio_small_03_1k.hdr',
-          showHDRIBackground: true,
-          initialModelScale: scale, // start with UI scale
-          navmeshUrl: '/assets/navmesh.glb', // <- teleport only on this mesh
+          ...sceneToViewerConfig(manifest),
+          initialModelScale: initialScale, // start with UI scale
+          viewState: view,
+          multiplayer: multiplayerFromLocation(), // ?room=…&name=…&presenter=1
+          onLevelChange: setLevel,
+          onModeChange: setMode,
+          onHotspotSelect: setHotspot,
+          onTourChange: setTour,
+          onMeasureModeChange: setMeasuring,
+          onMeasurementsChange: setMeasurements,
+          on: {
+            loadprogress: ({ asset, loaded, total }) => setProgress((prev) => ({ ...prev, [asset]: { loaded, total } })),
+            variantchange: setFinishes, // also fires for VR grip cycling
+            environmentchange: ({ id }) => setEnvId(id),
+            multiplayer: setRoom,
+            sectionchange: setSection,
+            error: ({ source }) => setError((prev) => `${prev ? `${prev}\n` : ''}${source} failed to load (see console)`),
+          },
         })
+        if (unmounted) { disposeViewer(h); return }
         setHandle(h)
+        setFinishes({ variant: h.variant, slots: h.materialSlots })
+        setEnvId(h.environment)
+        setExposure(h.exposure)
+        setRoom(h.multiplayer)
+        setSection(h.section)
         setStatus('Ready')
         cleanup = () => disposeViewer(h)
       } catch (e) {
@@ -28,14 +97,86 @@ export default function App() {
         setStatus('Failed to initialize viewer')
       }
     })()
-    return () => cleanup()
+    return () => { unmounted = true; cleanup() }
   }, []) // init once
 
+  // Floor-plan minimap: the viewer draws into its own canvas, mounted here
+  useEffect(() => {
+    const canvas = handle?.minimap
+    const host = minimapRef.current
+    if (!canvas || !host) return
+    host.appendChild(canvas)
+    return () => { if (canvas.parentElement === host) host.removeChild(canvas) }
+  }, [handle])
+
+  // Screen reader announcements (live region below); a trailing space re-announces an identical message
+  const announce = (text: string) => { if (text) setAnnouncement((prev) => (prev === text ? `${text}\u00a0` : text)) }
+  useEffect(() => {
+    if (!handle) return
+    const metersPerUnit = scene?.measure?.metersPerUnit ?? 1
+    const offs = [
+      handle.on('levelchange', ({ level }) => { if (level) announce(`Now on ${level.name}`) }),
+      handle.on('teleportend', ({ position }) => announce(describePlace(handle, position, metersPerUnit))),
+      handle.on('xrsessionstart', ({ mode }) => announce(mode === 'ar' ? 'AR session started' : 'VR session started')),
+      handle.on('xrsessionend', () => announce('Back to the desktop view')),
+    ]
+    return () => offs.forEach((off) => off())
+  }, [handle, scene])
+  useEffect(() => { if (handle) announce(mode === 'dollhouse' ? 'Dollhouse overview' : 'First-person view') }, [mode])
+  useEffect(() => { if (hotspot) announce(`${hotspot.title}${hotspot.description ? `: ${hotspot.description}` : ''}`) }, [hotspot])
+
+  // Visit analytics (manifest `analytics`): summary refreshed every few seconds
+  useEffect(() => {
+    if (!handle?.analytics) return
+    setVisits(handle.analytics)
+    const t = setInterval(() => setVisits(handle.analytics), 5000)
+    return () => clearInterval(t)
+  }, [handle])
+
+  function toggleOverlay(kind: AnalyticsOverlay) {
+    const on = !overlays.includes(kind)
+    handle?.setAnalyticsOverlay(kind, on)
+    setOverlays((prev) => (on ? [...prev, kind] : prev.filter((k) => k !== kind)))
+  }
+
+  function exportVisits() {
+    const session = handle?.exportAnalytics()
+    if (!session) return
+    const a = document.createElement('a')
+    a.href = URL.createObjectURL(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }))
+    a.download = `visit-${session.startedAt.replace(/[:.]/g, '-')}.json`
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000)
+  }
+
   // Keep scene scale in sync when user drags the slider
   useEffect(() => {
     handle?.setModelScale?.(scale)
   }, [scale, handle])
 
+  async function copyLink() {
+    if (!handle) return
+    const url = viewLink(handle.getViewState())
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      window.prompt('Copy this link:', url) // clipboard blocked (insecure context / permissions)
+    }
+  }
+
+  // all assets download in parallel: one bar over the bytes of those with a known size
+  const loads = Object.values(progress)
+  const loadedBytes = loads.reduce((n, p) => n + p.loaded, 0)
+  const knownTotal = loads.reduce((n, p) => n + p.total, 0)
+  const loadFraction = knownTotal ? Math.min(1, loads.reduce((n, p) => n + (p.total ? p.loaded : 0), 0) / knownTotal) : null
+  const mb = (b: number) => (b / 1048576).toFixed(1)
+
+  const features = scene?.features ?? {}
+  const theme = scene?.ui?.theme ?? {}
+  const activeBtnStyle = activeBtn(theme.accent ?? ACCENT)
+
   return (
     <>
       {/* Overlay UI */}
@@ -47,8 +188,8 @@ export default function App() {
           left: 12,
           zIndex: 10,
           padding: 12,
-          background: 'rgba(0,0,0,0.45)',
-          color: '#fff',
+          background: theme.panel ?? 'rgba(0,0,0,0.45)',
+          color: theme.text ?? '#fff',
           borderRadius: 8,
           fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif',
           backdropFilter: 'blur(6px)',
@@ -56,8 +197,30 @@ export default function App() {
           pointerEvents: 'auto',
         }}
       >
-        <div style={{ fontWeight: 700, marginBottom: 4 }}>WebXR Starter</div>
+        <div style={{ fontWeight: 700, marginBottom: 4 }}>{scene?.ui?.title ?? 'WebXR Starter'}</div>
         <div style={{ opacity: 0.9 }}>Status: {status}</div>
+        {!handle && loads.length > 0 && (
+          <div style={{ marginTop: 6 }}>
+            <div
+              role="progressbar"
+              aria-label="Loading assets"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={loadFraction === null ? undefined : Math.round(loadFraction * 100)}
+              style={{ height: 6, borderRadius: 3, background: 'rgba(255,255,255,0.15)', overflow: 'hidden' }}
+            >
+              <div style={{ height: '100%', width: `${(loadFraction ?? 0) * 100}%`, background: theme.accent ?? ACCENT, transition: 'width 0.2s' }} />
+            </div>
+            <div style={{ marginTop: 4, fontSize: 12, opacity: 0.85 }}>
+              {loadFraction === null
+                ? `${mb(loadedBytes)} MB`
+                : loadFraction < 1 ? `${Math.round(loadFraction * 100)}% · ${mb(loadedBytes)} / ${mb(knownTotal)} MB` : 'Decoding…'}
+            </div>
+          </div>
+        )}
+        {error && (
+          <pre style={{ margin: '8px 0 0', whiteSpace: 'pre-wrap', fontSize: 11, color: '#fca5a5' }}>{error}</pre>
+        )}
 
         <div style={{ marginTop: 10, display: 'flex', gap: 8, flexWrap: 'wrap' }}>
           <button
@@ -74,32 +237,386 @@ export default function App() {
           >
             Reset Camera
           </button>
+          <button
+            onClick={copyLink}
+            style={btnStyle}
+            disabled={!handle}
+          >
+            {copied ? 'Link copied' : 'Copy link'}
+          </button>
+          {features.dollhouse !== false && <button
+            onClick={() => handle?.setMode(mode === 'dollhouse' ? 'firstPerson' : 'dollhouse')}
+            style={mode === 'dollhouse' ? activeBtnStyle : btnStyle}
+            disabled={!handle}
+            aria-pressed={mode === 'dollhouse'}
+          >
+            Dollhouse
+          </button>}
+          {features.measure !== false && <button
+            onClick={() => handle?.setMeasureMode(!measuring)}
+            style={measuring ? activeBtnStyle : btnStyle}
+            disabled={!handle}
+            aria-pressed={measuring}
+          >
+            Measure
+          </button>}
+          {features.section !== false && <button
+            onClick={() => setSectionOpen((o) => !o)}
+            style={sectionOpen ? activeBtnStyle : btnStyle}
+            disabled={!handle}
+            aria-pressed={sectionOpen}
+            aria-expanded={sectionOpen}
+          >
+            Section
+          </button>}
         </div>
 
+        {/* Section planes / clipping box: drag the blue handles (VR: point and grip) */}
+        {handle && section && sectionOpen && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+              {(['x', 'y', 'z'] as SectionAxis[]).map((a) => (
+                <button key={a} onClick={() => handle.addSectionPlane(a)} style={btnStyle} aria-label={`Add ${a.toUpperCase()} section plane`}>
+                  + {a.toUpperCase()}
+                </button>
+              ))}
+              <button onClick={() => handle.setClipBox(!section.box)} style={section.box ? activeBtnStyle : btnStyle} aria-pressed={!!section.box}>
+                Box
+              </button>
+              <button onClick={() => handle.setSectionCaps(!section.caps)} style={section.caps ? activeBtnStyle : btnStyle} aria-pressed={section.caps}>
+                Caps
+              </button>
+              <button onClick={() => handle.setSectionGizmos(!section.gizmos)} style={section.gizmos ? activeBtnStyle : btnStyle} aria-pressed={section.gizmos}>
+                Handles
+              </button>
+            </div>
+            {section.planes.map((pl, i) => (
+              <div key={pl.id} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, marginTop: 4 }}>
+                <span style={{ flex: 1 }}>#{i + 1} · {planeLabel(pl)}</span>
+                <button onClick={() => handle.flipSectionPlane(pl.id)} style={{ ...btnStyle, padding: '2px 8px' }} aria-label={`Flip section ${i + 1}`}>⇅</button>
+                <button onClick={() => handle.removeSectionPlane(pl.id)} style={{ ...btnStyle, padding: '2px 8px' }} aria-label={`Remove section ${i + 1}`}>✕</button>
+              </div>
+            ))}
+            {(section.planes.length > 0 || section.box) && (
+              <button onClick={() => handle.clearSections()} style={{ ...btnStyle, marginTop: 6 }}>Clear all</button>
+            )}
+          </div>
+        )}
+
+        {/* Measurements (model units, metric/imperial) */}
+        {handle && (measuring || measurements.length > 0) && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+              <span style={{ flex: 1 }}>Measurements</span>
+              {(['metric', 'imperial'] as const).map((u) => (
+                <button
+                  key={u}
+                  onClick={() => { setUnits(u); handle.setMeasureUnits(u) }}
+                  style={{ ...(u === units ? activeBtnStyle : btnStyle), padding: '4px 8px' }}
+                  aria-pressed={u === units}
+                >
+                  {u === 'metric' ? 'm' : 'ft'}
+                </button>
+              ))}
+            </div>
+            {measurements.length === 0 && (
+              <div style={{ fontSize: 12, opacity: 0.85 }}>Click two points on the model (Esc cancels)</div>
+            )}
+            {measurements.map((m, i) => (
+              <div key={m.id} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, marginTop: 4 }}>
+                <span style={{ flex: 1 }}>#{i + 1} · <code>{m.label}</code></span>
+                <button onClick={() => handle.removeMeasurement(m.id)} style={{ ...btnStyle, padding: '2px 8px' }} aria-label={`Remove measurement ${i + 1}`}>✕</button>
+              </div>
+            ))}
+            {measurements.length > 1 && (
+              <button onClick={() => handle.clearMeasurements()} style={{ ...btnStyle, marginTop: 6 }}>Clear all</button>
+            )}
+          </div>
+        )}
+
+        {/* Guided tour (scene manifest `tour`) */}
+        {scene?.tour && (
+          <div style={{ marginTop: 12, display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+            {!tour ? (
+              <button onClick={() => handle?.playTour()} style={btnStyle} disabled={!handle}>▶ Play tour</button>
+            ) : (
+              <>
+                <button onClick={() => (tour.paused ? handle?.resumeTour() : handle?.pauseTour())} style={btnStyle}>
+                  {tour.paused ? '▶ Resume' : '❚❚ Pause'}
+                </button>
+                <button onClick={() => handle?.skipTourStop()} style={btnStyle}>Skip ▸▸</button>
+                <button onClick={() => handle?.stopTour()} style={btnStyle}>■ Stop</button>
+                <span style={{ fontSize: 12, opacity: 0.85 }}>Stop {tour.index + 1}/{tour.count}</span>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Co-presence room (?room=…) */}
+        {handle && room && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ marginBottom: 6 }}>
+              Room <code>{room.room}</code> · {room.connected ? `${room.peers.length + 1} here` : 'connecting…'}
+            </div>
+            {room.connected && (
+              <div style={{ fontSize: 12, opacity: 0.85, marginBottom: 6 }}>
+                {[{ id: room.id, name: `${room.name} (you)` }, ...room.peers].map((p) => `${p.id === room.presenter ? '★ ' : ''}${p.name}`).join(' · ')}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+              <button
+                onClick={() => handle.setPresenter(room.presenter !== room.id)}
+                style={room.presenter !== null && room.presenter === room.id ? activeBtnStyle : btnStyle}
+                disabled={!room.connected}
+                aria-pressed={room.presenter !== null && room.presenter === room.id}
+              >
+                Present
+              </button>
+              <button
+                onClick={() => handle.setFollowPresenter(!room.following)}
+                style={room.following ? activeBtnStyle : btnStyle}
+                disabled={!room.connected}
+                aria-pressed={room.following}
+              >
+                Follow presenter
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Visit analytics: floor heatmap / most viewed surfaces, JSON export */}
+        {handle && visits && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ marginBottom: 6 }}>
+              Analytics · {Math.round(visits.duration / 60)} min · {visits.teleports} moves · {visits.hotspotClicks} hotspots
+            </div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+              {([['heatmap', 'Heatmap'], ['gaze', 'Most viewed']] as const).map(([kind, label]) => (
+                <button
+                  key={kind}
+                  onClick={() => toggleOverlay(kind)}
+                  style={overlays.includes(kind) ? activeBtnStyle : btnStyle}
+                  aria-pressed={overlays.includes(kind)}
+                >
+                  {label}
+                </button>
+              ))}
+              <button onClick={exportVisits} style={btnStyle}>Export JSON</button>
+            </div>
+            {overlays.includes('gaze') && visits.topSurfaces.length > 0 && (
+              <div style={{ marginTop: 6, fontSize: 12, opacity: 0.85 }}>
+                {visits.topSurfaces.slice(0, 5).map((s) => `${s.name} ${Math.round(s.seconds)}s`).join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Level picker (multi-storey navmesh only) */}
+        {handle && handle.levels.length > 1 && features.levelPicker !== false && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ marginBottom: 6 }}>Levels</div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+              {[...handle.levels].reverse().map((l) => (
+                <button
+                  key={l.id}
+                  onClick={() => handle.goToLevel(l.id)}
+                  style={l.id === level ? activeBtnStyle : btnStyle}
+                  aria-pressed={l.id === level}
+                >
+                  {l.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Lighting presets + exposure */}
+        {handle && (
+          <div style={{ marginTop: 12 }}>
+            {handle.environments.length > 1 && <>
+              <div style={{ marginBottom: 6 }}>Lighting</div>
+              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 6 }}>
+                {handle.environments.map((e) => (
+                  <button
+                    key={e.id}
+                    onClick={async () => { if (await handle.setEnvironment(e.id)) setExposure(handle.exposure) }}
+                    style={e.id === envId ? activeBtnStyle : btnStyle}
+                    aria-pressed={e.id === envId}
+                  >
+                    {e.label ?? e.id}
+                  </button>
+                ))}
+              </div>
+            </>}
+            <label htmlFor="exposure" style={{ display: 'block', marginBottom: 6 }}>
+              Exposure: <code>{exposure.toFixed(2)}</code>
+            </label>
+            <input
+              id="exposure"
+              type="range"
+              min={0.1}
+              max={3}
+              step={0.05}
+              value={exposure}
+              onChange={(e) => { const v = parseFloat(e.target.value); setExposure(v); handle.setExposure(v) }}
+              style={{ width: '100%' }}
+            />
+          </div>
+        )}
+
+        {/* Finishes: glTF material variants + material slots from the manifest */}
+        {handle && (handle.variants.length > 0 || finishes.slots.length > 0) && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ marginBottom: 6 }}>Finishes</div>
+            {handle.variants.length > 0 && (
+              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 6 }}>
+                {[null, ...handle.variants].map((v) => (
+                  <button
+                    key={v ?? '__default'}
+                    onClick={() => { void handle.setVariant(v) }}
+                    style={v === finishes.variant ? activeBtnStyle : btnStyle}
+                    aria-pressed={v === finishes.variant}
+                  >
+                    {v ?? 'Default'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {finishes.slots.map((slot) => (
+              <div key={slot.id} style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center', marginBottom: 6 }}>
+                <span style={{ fontSize: 12, opacity: 0.85, minWidth: 60 }}>{slot.label}</span>
+                {[null, ...slot.options].map((o) => (
+                  <button
+                    key={o ?? '__original'}
+                    onClick={() => handle.setMaterialOption(slot.id, o)}
+                    style={{ ...(o === slot.active ? activeBtnStyle : btnStyle), padding: '4px 8px' }}
+                    aria-pressed={o === slot.active}
+                  >
+                    {o ?? 'Original'}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Scale control */}
         <div style={{ marginTop: 12 }}>
-          <label htmlFor="scale" style={{ display: 'block', marginBottom: 6 }}>
-            Model Scale: <code>{scale.toFixed(2)}×</code>
-          </label>
-          <input
-            id="scale"
-            type="range"
-            min={0.05}
-            max={2}
-            step={0.01}
-            value={scale}
-            onChange={(e) => setScale(parseFloat(e.target.value))}
-            style={{ width: '100%' }}
-            disabled={!handle}
-          />
+          {features.scaleControl !== false && <>
+            <label htmlFor="scale" style={{ display: 'block', marginBottom: 6 }}>
+              Model Scale: <code>{scale.toFixed(2)}×</code>
+            </label>
+            <input
+              id="scale"
+              type="range"
+              min={MODEL_SCALE_MIN}
+              max={MODEL_SCALE_MAX}
+              step={0.01}
+              value={scale}
+              onChange={(e) => setScale(parseFloat(e.target.value))}
+              style={{ width: '100%' }}
+              disabled={!handle}
+            />
+          </>}
           <div style={{ marginTop: 6, fontSize: 12, opacity: 0.85, lineHeight: 1.35 }}>
             • Drag to look · Click to move<br />
-            • VR/AR: use controller trigger to move<br />
+            • <kbd>W</kbd><kbd>A</kbd><kbd>S</kbd><kbd>D</kbd> / arrows to walk · <kbd>Q</kbd>/<kbd>E</kbd> turn · <kbd>Shift</kbd> run · gamepad sticks<br />
+            • Dollhouse: drag to orbit · click a floor to walk there<br />
+            • Click an <b>i</b> marker for details<br />
+            • Measure: click two points (snaps to corners/edges)<br />
+            • VR: push the thumbstick forward to aim, release to teleport · left/right to turn · trigger for menus and hotspots · grip while pointing at a part to change its finish<br />
+            • Keyboard: <kbd>Tab</kbd> to the places bar, arrows to pick, <kbd>Enter</kbd> to go<br />
             • Debug: press <kbd>N</kbd> to toggle navmesh wireframe
           </div>
         </div>
       </div>
 
+      {/* Screen reader announcements: arrivals, level / view changes, opened hotspots */}
+      <div role="status" aria-live="polite" aria-atomic="true" style={visuallyHidden}>{announcement}</div>
+
+      {/* Tour caption */}
+      {tour?.caption && !hotspot && (
+        <div
+          aria-live="polite"
+          style={{
+            position: 'fixed',
+            left: '50%',
+            bottom: 56,
+            transform: 'translateX(-50%)',
+            width: 'min(520px, calc(100% - 24px))',
+            zIndex: 20,
+            padding: '10px 14px',
+            background: theme.panel ?? 'rgba(0,0,0,0.45)',
+            color: theme.text ?? '#fff',
+            borderRadius: 10,
+            fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif',
+            fontSize: 14,
+            lineHeight: 1.45,
+            textAlign: 'center',
+            backdropFilter: 'blur(6px)',
+            boxSizing: 'border-box',
+            pointerEvents: 'none',
+          }}
+        >
+          {tour.caption}
+        </div>
+      )}
+
+      {/* Hotspot info panel (bottom sheet; fits phones too) */}
+      {hotspot && (
+        <div
+          role="dialog"
+          aria-labelledby="hotspot-title"
+          style={{
+            position: 'fixed',
+            left: '50%',
+            bottom: 56,
+            transform: 'translateX(-50%)',
+            width: 'min(420px, calc(100% - 24px))',
+            maxHeight: '60vh',
+            overflowY: 'auto',
+            zIndex: 20,
+            padding: 14,
+            background: theme.panel ?? 'rgba(0,0,0,0.45)',
+            color: theme.text ?? '#fff',
+            borderRadius: 10,
+            fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif',
+            backdropFilter: 'blur(6px)',
+            boxSizing: 'border-box',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'flex-start', gap: 8 }}>
+            <div id="hotspot-title" style={{ fontWeight: 700, fontSize: 15, flex: 1 }}>{hotspot.title}</div>
+            <button onClick={() => handle?.selectHotspot(null)} style={btnStyle} aria-label="Close">✕</button>
+          </div>
+          {hotspot.imageUrl && (
+            <img src={hotspot.imageUrl} alt="" style={{ display: 'block', width: '100%', marginTop: 10, borderRadius: 6 }} />
+          )}
+          {hotspot.description && (
+            <p style={{ margin: '10px 0 0', fontSize: 13, lineHeight: 1.45, opacity: 0.9 }}>{hotspot.description}</p>
+          )}
+        </div>
+      )}
+
+      {/* Minimap (click to teleport) */}
+      {handle?.minimap && (
+        <div
+          ref={minimapRef}
+          aria-label="Floor plan: click to teleport"
+          style={{
+            position: 'fixed',
+            left: 12,
+            bottom: 12,
+            zIndex: 10,
+            width: 'min(200px, 38vw)',
+            aspectRatio: '1',
+            borderRadius: 8,
+            overflow: 'hidden',
+            pointerEvents: 'auto',
+          }}
+        />
+      )}
+
       <div
         className="footer"
         style={{
@@ -143,3 +660,37 @@ const btnStyle: React.CSSProperties = {
   color: '#fff',
   cursor: 'pointer',
 }
+
+const ACCENT = '#60a5fa'
+
+// read by screen readers, not drawn
+const visuallyHidden: React.CSSProperties = {
+  position: 'absolute', width: 1, height: 1, margin: -1, padding: 0, overflow: 'hidden', clipPath: 'inset(50%)', whiteSpace: 'nowrap', border: 0,
+}
+
+const NEAR_HOTSPOT_M = 3
+
+// "Arrived near <hotspot>, <level>" for the live region (position in model file coordinates)
+function describePlace(h: ViewerHandle, [x, , z]: Vec3Tuple, metersPerUnit: number) {
+  let near: Hotspot | null = null, best = NEAR_HOTSPOT_M / metersPerUnit
+  for (const hs of h.hotspots) {
+    const d = Math.hypot(hs.position[0] - x, hs.position[2] - z)
+    if (d < best) { best = d; near = hs }
+  }
+  const level = h.levels.length > 1 ? h.levels.find((l) => l.id === h.currentLevel)?.name : undefined
+  return [near ? `Arrived near ${near.title}` : 'Arrived', level].filter(Boolean).join(', ')
+}
+
+// "keeps −Y" for an axis plane, "custom" otherwise
+function planeLabel({ normal }: SectionPlane) {
+  const i = normal.findIndex((c) => Math.abs(c) > 0.999)
+  return i < 0 ? 'custom' : `keeps ${normal[i] < 0 ? '−' : '+'}${'XYZ'[i]}`
+}
+
+// highlighted (pressed) button in the scene's accent colour
+const activeBtn = (accent: string): React.CSSProperties => ({
+  ...btnStyle,
+  border: `1px solid ${accent}`,
+  background: `color-mix(in srgb, ${accent} 18%, transparent)`,
+  color: `color-mix(in srgb, ${accent} 45%, #fff)`,
+})
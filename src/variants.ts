@@ -0,0 +1,172 @@
+// src/variants.ts
+// Finish configurator: glTF KHR_materials_variants plus named material slots whose options come from the scene config.
+import * as THREE from 'three'
+import type { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+
+const VARIANTS_EXT = 'KHR_materials_variants'
+
+// A finish defined in config (MeshStandardMaterial parameters; `map` is a texture URL)
+export type MaterialOption = {
+  name: string
+  color?: string
+  roughness?: number
+  metalness?: number
+  map?: string
+  repeat?: [number, number]
+}
+
+// Meshes whose mesh or material name matches one of `match` (`*` wildcards) share the slot's options.
+export type MaterialSlot = {
+  id: string
+  label?: string
+  match: string[]
+  options: MaterialOption[]
+  default?: string
+}
+
+export type MaterialSlotState = {
+  id: string
+  label: string
+  options: string[]
+  active: string | null // null = the model's own material
+}
+
+export type Configurator = {
+  readonly variants: string[]
+  readonly variant: string | null
+  setVariant: (name: string | null) => Promise<boolean>
+  readonly slots: MaterialSlotState[]
+  setSlotOption: (slotId: string, option: string | null) => boolean
+  cycleAt: (object: THREE.Object3D) => Promise<boolean> // next option of the object's slot, else the next glTF variant
+  dispose: () => void
+}
+
+type MeshState = {
+  mesh: THREE.Mesh
+  original: THREE.Material | THREE.Material[]
+  variant: THREE.Material | THREE.Material[] | null // from the active glTF variant
+  mappings: { material: number; variants: number[] }[]
+  slot: string | null
+}
+
+const globToRe = (g: string) => new RegExp(`^${g.split('*').map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+
+export function createConfigurator(
+  root: THREE.Object3D,
+  gltf: GLTF | null,
+  slotDefs: MaterialSlot[] = [],
+  onChange: () => void = () => {}
+): Configurator {
+  const variants: string[] = (gltf?.userData?.gltfExtensions?.[VARIANTS_EXT]?.variants ?? []).map((v: { name: string }) => v.name)
+  let variant: string | null = null
+  let variantRequest = 0 // bumped per setVariant so a slower earlier load can't land over a newer one
+  const meshes = new Map<THREE.Mesh, MeshState>()
+  const active = new Map<string, string | null>()    // slot id -> option name
+  const optionMats = new Map<string, THREE.MeshStandardMaterial>() // `${slot}/${option}`
+  const loadedVariantMats = new Set<THREE.Material>()
+  const slotRes = slotDefs.map((s) => ({ def: s, res: s.match.map(globToRe) }))
+
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh
+    if (!mesh.isMesh) return
+    const ext = mesh.userData.gltfExtensions?.[VARIANTS_EXT]
+    const matNames = (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).map((m) => m.name)
+    const slot = slotRes.find(({ res }) => res.some((re) => re.test(mesh.name) || matNames.some((n) => re.test(n))))
+    if (!ext && !slot) return
+    meshes.set(mesh, { mesh, original: mesh.material, variant: null, mappings: ext?.mappings ?? [], slot: slot?.def.id ?? null })
+  })
+  for (const s of slotDefs) {
+    if (![...meshes.values()].some((m) => m.slot === s.id)) console.warn(`[viewer] material slot "${s.id}" matches no mesh`)
+  }
+
+  function optionMaterial(slot: MaterialSlot, name: string) {
+    const key = `${slot.id}/${name}`
+    let mat = optionMats.get(key)
+    if (mat) return mat
+    const o = slot.options.find((x) => x.name === name)
+    if (!o) return null
+    mat = new THREE.MeshStandardMaterial({ name: o.name, roughness: o.roughness ?? 0.6, metalness: o.metalness ?? 0 })
+    if (o.color) mat.color.set(o.color)
+    if (o.map) {
+      const m = mat
+      m.map = new THREE.TextureLoader().load(o.map, undefined, undefined, (e) => console.warn('[viewer] finish texture failed', o.map, e))
+      m.map.colorSpace = THREE.SRGBColorSpace
+      m.map.wrapS = m.map.wrapT = THREE.RepeatWrapping
+      if (o.repeat) m.map.repeat.set(...o.repeat)
+    }
+    optionMats.set(key, mat)
+    return mat
+  }
+
+  // slot override > glTF variant > the model's own material
+  function apply(st: MeshState) {
+    const opt = st.slot ? active.get(st.slot) : null
+    const slot = st.slot ? slotDefs.find((s) => s.id === st.slot) : undefined
+    const over = slot && opt ? optionMaterial(slot, opt) : null
+    st.mesh.material = over ?? st.variant ?? st.original
+  }
+
+  async function setVariant(name: string | null) {
+    const index = name === null ? -1 : variants.indexOf(name)
+    if (name !== null && index < 0) { console.warn(`[viewer] unknown material variant "${name}"`); return false }
+    variant = name
+    const req = ++variantRequest
+    await Promise.all([...meshes.values()].map(async (st) => {
+      const mapping = st.mappings.find((m) => m.variants.includes(index))
+      if (!mapping || !gltf?.parser) { st.variant = null; apply(st); return }
+      try {
+        const mat: THREE.Material = await gltf.parser.getDependency('material', mapping.material)
+        loadedVariantMats.add(mat)
+        if (req !== variantRequest) return // superseded while loading
+        st.variant = mat
+        apply(st)
+        gltf.parser.assignFinalMaterial(st.mesh) // vertex colours / flat shading variants of the material
+        if (!(st.slot && active.get(st.slot))) st.variant = st.mesh.material
+      } catch (e) { console.warn('[viewer] variant material failed', e) }
+    }))
+    onChange()
+    return true
+  }
+
+  function setSlotOption(slotId: string, option: string | null, notify = true) {
+    const slot = slotDefs.find((s) => s.id === slotId)
+    if (!slot) { console.warn(`[viewer] unknown material slot "${slotId}"`); return false }
+    if (option !== null && !slot.options.some((o) => o.name === option)) { console.warn(`[viewer] slot "${slotId}" has no option "${option}"`); return false }
+    active.set(slotId, option)
+    meshes.forEach((st) => { if (st.slot === slotId) apply(st) })
+    if (notify) onChange()
+    return true
+  }
+
+  for (const s of slotDefs) if (s.default) setSlotOption(s.id, s.default, false) // initial state, not a change
+
+  return {
+    variants,
+    get variant() { return variant },
+    setVariant,
+    get slots() {
+      return slotDefs.map((s) => ({ id: s.id, label: s.label ?? s.id, options: s.options.map((o) => o.name), active: active.get(s.id) ?? null }))
+    },
+    setSlotOption: (slotId, option) => setSlotOption(slotId, option),
+    cycleAt: async (object) => {
+      let st: MeshState | undefined
+      for (let o: THREE.Object3D | null = object; o && !st; o = o.parent) st = meshes.get(o as THREE.Mesh)
+      if (!st) return false
+      if (st.slot) {
+        const slot = slotDefs.find((s) => s.id === st!.slot)!
+        const names = slot.options.map((o) => o.name)
+        const cur = active.get(slot.id) ?? null
+        return setSlotOption(slot.id, names[(cur === null ? -1 : names.indexOf(cur)) + 1] ?? null) // …last -> model's own
+      }
+      if (st.mappings.length && variants.length) {
+        return setVariant(variants[(variant === null ? -1 : variants.indexOf(variant)) + 1] ?? null)
+      }
+      return false
+    },
+    dispose: () => {
+      meshes.forEach((st) => { st.mesh.material = st.original })
+      optionMats.forEach((m) => { m.map?.dispose(); m.dispose() })
+      loadedVariantMats.forEach((m) => m.dispose())
+    },
+  }
+}
@@ -0,0 +1,58 @@
+// src/viewLink.test.ts
+// View links round-trip through the URL hash; damaged or crafted links restore what they can.
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { encodeViewState, parseViewState, viewLink } from './viewLink'
+import { MODEL_SCALE_MAX, type ViewState } from './viewer'
+
+const state: ViewState = {
+  position: [1.23456, 0, -3.4],
+  yaw: 90.04,
+  pitch: -10,
+  fov: 35,
+  scale: 0.5,
+  level: 'Level_1',
+  mode: 'dollhouse',
+  background: false,
+}
+
+describe('view links', () => {
+  afterEach(() => { vi.restoreAllMocks() })
+
+  it('round-trip a view state (rounded)', () => {
+    const hash = encodeViewState(state)
+    expect(hash).toBe('pos=1.235%2C0%2C-3.4&yaw=90&pitch=-10&fov=35&scale=0.5&level=Level_1&mode=dollhouse&bg=0')
+    expect(parseViewState(`#${hash}`)).toEqual({ ...state, position: [1.235, 0, -3.4], yaw: 90 })
+  })
+
+  it('leave first person and a missing level out of the link', () => {
+    const q = new URLSearchParams(encodeViewState({ ...state, level: null, mode: 'firstPerson' }))
+    expect(q.has('level')).toBe(false)
+    expect(q.has('mode')).toBe(false)
+  })
+
+  it('keep ?scene= and replace the hash', () => {
+    expect(viewLink(state, 'https://example.com/?scene=/scenes/loft.json#old')).toMatch(/^https:\/\/example\.com\/\?scene=\/scenes\/loft\.json#pos=/)
+  })
+
+  it('ignore hashes that are not view links', () => {
+    expect(parseViewState('')).toBeNull()
+    expect(parseViewState('#section-2')).toBeNull()
+  })
+
+  it('drop malformed fields with one warning and keep the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(parseViewState('#pos=1,2&yaw=abc&pitch=&fov=35&mode=orbit&bg=yes&level=Level_0')).toEqual({ fov: 35, level: 'Level_0' })
+    expect(warn).toHaveBeenCalledOnce()
+    expect(warn).toHaveBeenCalledWith('[viewer] ignoring invalid view link fields: pos, yaw, pitch, mode, bg')
+  })
+
+  it('reject non-finite numbers and scales outside the slider range', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(parseViewState('#pos=1,NaN,2&yaw=Infinity')).toEqual({})
+    for (const scale of ['0', '-1', String(MODEL_SCALE_MAX * 10), '1e400']) {
+      expect(parseViewState(`#yaw=0&scale=${scale}`)).toEqual({ yaw: 0 })
+    }
+    expect(parseViewState(`#yaw=0&scale=${MODEL_SCALE_MAX}`)).toEqual({ yaw: 0, scale: MODEL_SCALE_MAX })
+    expect(warn).toHaveBeenLastCalledWith('[viewer] ignoring invalid view link fields: scale')
+  })
+})
@@ -0,0 +1,65 @@
+// src/viewLink.ts
+// Shareable view links: ViewState <-> URL hash (`#pos=1.2,0,-3.4&yaw=90&…`), next to `?scene=` in the query.
+import { MODEL_SCALE_MAX, MODEL_SCALE_MIN, type Vec3Tuple, type ViewState } from './viewer'
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits))
+
+export function encodeViewState(s: ViewState): string {
+  const q = new URLSearchParams()
+  q.set('pos', s.position.map((v) => round(v, 3)).join(','))
+  q.set('yaw', String(round(s.yaw, 1)))
+  q.set('pitch', String(round(s.pitch, 1)))
+  q.set('fov', String(round(s.fov, 1)))
+  q.set('scale', String(round(s.scale, 3)))
+  if (s.level) q.set('level', s.level)
+  if (s.mode !== 'firstPerson') q.set('mode', s.mode)
+  q.set('bg', s.background ? '1' : '0')
+  return q.toString()
+}
+
+// Lenient: malformed fields are dropped (with a warning), so a damaged link still restores what it can.
+export function parseViewState(hash: string): Partial<ViewState> | null {
+  const q = new URLSearchParams(hash.replace(/^#/, ''))
+  if (!q.has('pos') && !q.has('yaw') && !q.has('level') && !q.has('mode')) return null
+  const out: Partial<ViewState> = {}
+  const bad: string[] = []
+  const number = (key: 'yaw' | 'pitch' | 'fov' | 'scale') => {
+    const raw = q.get(key)
+    if (raw === null) return
+    const v = Number(raw)
+    if (raw.trim() !== '' && isFinite(v)) out[key] = v
+    else bad.push(key)
+  }
+
+  const pos = q.get('pos')
+  if (pos !== null) {
+    const v = pos.split(',').map(Number)
+    if (v.length === 3 && v.every((n) => isFinite(n))) out.position = v as Vec3Tuple
+    else bad.push('pos')
+  }
+  number('yaw'); number('pitch'); number('fov'); number('scale')
+  // the slider's range: a crafted link can't mirror, collapse or blow up the model
+  if (out.scale !== undefined && !(out.scale >= MODEL_SCALE_MIN && out.scale <= MODEL_SCALE_MAX)) { delete out.scale; bad.push('scale') }
+  const level = q.get('level')
+  if (level) out.level = level
+  const mode = q.get('mode')
+  if (mode === 'firstPerson' || mode === 'dollhouse') out.mode = mode
+  else if (mode !== null) bad.push('mode')
+  const bg = q.get('bg')
+  if (bg === '1' || bg === '0') out.background = bg === '1'
+  else if (bg !== null) bad.push('bg')
+
+  if (bad.length) console.warn(`[viewer] ignoring invalid view link fields: ${bad.join(', ')}`)
+  return out
+}
+
+export function viewStateFromLocation(hash = window.location.hash) {
+  return parseViewState(hash)
+}
+
+// current page (keeps `?scene=`) with the view in the hash
+export function viewLink(s: ViewState, href = window.location.href) {
+  const url = new URL(href)
+  url.hash = encodeViewState(s)
+  return url.href
+}
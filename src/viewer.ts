@@ -2,8 +2,24 @@
 import * as THREE from 'three'
 import { VRButton } from 'three/examples/jsm/webxr/VRButton'
 import { ARButton } from 'three/examples/jsm/webxr/ARButton'
-import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils'
+import { Pathfinding } from 'three-pathfinding'
+import { createVRMenu, type VRMenuItem, type VRMenuRow } from './vrMenu'
+import { createHotspotMarkers, createHotspotPanel } from './hotspots'
+import { createTourPlayer, type Tour, type TourStatus } from './tour'
+import { createMeasureTool, snapToFeature, type Measurement, type MeasureUnits } from './measure'
+import { detectLevels, levelCentroids, levelForHeight, modelPlacement, LEVEL_MIN_GAP } from './levels'
+import { createMinimap, floorOutline, type MinimapFloor } from './minimap'
+import { createEmitter, type Listener } from './events'
+import { createConfigurator, type MaterialSlot, type MaterialSlotState } from './variants'
+import { createEnvironment, type EnvironmentPreset } from './environment'
+import { createAssetLoaders } from './loaders'
+import type { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { createTeleportArc, createVignette, type TeleportArc } from './locomotion'
+import { createMultiplayer, type MultiplayerOptions, type MultiplayerStatus, type PeerPose, type PoseT, type QuatT } from './multiplayer'
+import { createAnalytics, type AnalyticsOptions, type AnalyticsOverlay, type AnalyticsSession, type AnalyticsSummary } from './analytics'
+import { createARPlacement, type ARPlacementMode, type ARPlacementStatus } from './arPlacement'
+import { createSectioning, type ClipBox, type SectionAxis, type SectioningOptions, type SectionStatus } from './sectioning'
 
 // ---- constants
 const DEFAULT_EYE_HEIGHT = 1
@@ -11,41 +27,213 @@ const LOOK_SENS_MOUSE = 0.0022
 const LOOK_SENS_TOUCH = 0.005
 const LOOK_PITCH_LIMIT = THREE.MathUtils.degToRad(85)
 const MOVE_SPEED = 2.0
+const MOVE_BLOCKED_FRAMES = 20   // a smooth move stuck this many frames in a row gives up
+const RUN_MULT = 2.0             // Shift / stick-press speed multiplier
+const TURN_SPEED = 1.8           // Q/E turn rate (rad/s)
+const GAMEPAD_LOOK_SPEED = 2.5   // right stick look rate at full tilt (rad/s)
+const GAMEPAD_DEADZONE = 0.15
 const CLICK_PX = 6
 const CLICK_MS = 300
 
-// ---- zoom constants (SNAP between extremes)
+// ---- VR thumbsticks (teleport: push forward to aim, release to go)
+const STICK_ENGAGE = 0.6         // push past this to aim / snap-turn
+const STICK_RELEASE = 0.25       // back inside this = released
+const SNAP_TURN_DEG = 30
+const SMOOTH_TURN_DEG = 90       // per second at full tilt
+const VIGNETTE_STRENGTH = 0.6
+const VR_SCALE_STEP = 1.25       // wrist menu: model scale ×/÷ per press
+const VR_EYE_STEP = 0.1          // wrist menu: eye height per press (m)
+const COMFORT_SPEED = 1.5        // rig speed (m/s) / turn rate (rad/s) that closes the vignette fully
+const COMFORT_JUMP = 0.5         // per-frame moves beyond this are teleports / snaps (no vignette)
+
+// ---- co-presence: following the presenter
+const FOLLOW_RATE = 4            // 1/s; the rig eases toward the presenter
+const FOLLOW_SNAP = 5            // further than this (m): jump (their teleports, level changes)
+
+// ---- keyboard places (Tab / arrows step through the start point, levels and hotspots)
+const HOTSPOT_STAND_DIST = 1.5   // stand this far from a hotspot when going to it (m)
+
+// ---- navmesh pathfinding
+const NAV_ZONE = 'navmesh'
+const PATH_PREVIEW_MAX = 128     // max waypoints drawn by the path preview line
+const PATH_PREVIEW_EPS = 0.05    // re-path only when aim/rig moved more than this (m)
+
+// ---- collision (body vs model walls)
+const COLLISION_RADIUS = 0.25    // body radius (m)
+const COLLISION_STEP = 0.35      // obstacles lower than this are stepped over (m)
+const COLLISION_ITERS = 3        // slide iterations (corners)
+const NAV_PROBE_UP = 0.5         // floor-height probe starts this far above the feet (steps/ramps, not the floor above)
+
+// ---- levels (floors) detected from the navmesh
+const LEVEL_NAME_RE = /(?:level|floor|storey|story)[\s_-]*(\d+)/i
+const FADE_SEC = 0.25            // fade-to-black duration for level teleports (each way)
+
+// ---- dollhouse (exterior orbit overview)
+const DOLLHOUSE_FOV = 45
+const DOLLHOUSE_TWEEN_SEC = 1.2
+const DOLLHOUSE_CUT_HEIGHT = 2.2 // clip this far above the selected floor (model units)
+const ORBIT_SENS_MOUSE = 0.005
+const ORBIT_SENS_TOUCH = 0.008
+const ORBIT_POLAR_MIN = THREE.MathUtils.degToRad(10)
+const ORBIT_POLAR_MAX = THREE.MathUtils.degToRad(85)
+
+// ---- zoom constants (presets + default limits)
 const FOV_MIN = 18
 const FOV_MID = 35
 const FOV_MAX = 100
-const WHEEL_ZOOM_SNAP = true
-const PINCH_ZOOM_SNAP = true
+const WHEEL_ZOOM_RATE = 0.0015   // continuous wheel zoom per deltaY pixel (log of tan(fov/2))
 
-// ---- temps
-const _tmpV = new THREE.Vector3()
-const _mouseNDC = new THREE.Vector2(0, 0)
+// ---- measuring
+const MEASURE_SNAP_PX = 12                               // snap to corners/edges within this many pixels (desktop)
+const MEASURE_SNAP_ANGLE = THREE.MathUtils.degToRad(1.5) // same, as an angle around the controller ray (XR)
 
-// Fallback floor helpers (only used if NO navmesh provided)
-const _floorPlane = new THREE.Plane()
-const _floorPosWS = new THREE.Vector3()
-const _floorNormalWS = new THREE.Vector3(0, 1, 0)
+// ---- temps (scratch only; per-viewer state lives in initViewer)
+const _tmpV = new THREE.Vector3()
 const _ray = new THREE.Ray()
 
-// --- navmesh state
-let navmeshGroup: THREE.Group | null = null        // holds baked navmesh meshes (always visible for raycast)
-let navmeshMinY: number | null = null              // global lowest Y
-let navmeshDebugWireOn = false
-
-// keep the same transform we applied to the model so navmesh can match it
-const _modelAppliedXform = new THREE.Matrix4().identity()
+export type Vec3Tuple = [number, number, number]
 
 export type ViewerConfig = {
   modelUrl?: string
   hdriUrl?: string
   showHDRIBackground?: boolean
+  environments?: EnvironmentPreset[] // lighting presets; default: one built from hdriUrl/showHDRIBackground
+  environment?: string               // initial preset id (default: the first)
   initialModelScale?: number
   initialEyeHeight?: number
   navmeshUrl?: string // teleport only on this imported mesh
+  decoderPath?: string // Draco/Basis decoder files (default '/decoders/', served by vite.config.ts)
+  showVRButton?: boolean   // default true
+  showARButton?: boolean   // default true
+  arMode?: ARPlacementMode // AR placement: 'tabletop' (default, pinch to scale) or 'lifeSize' (1:1 walk-in)
+  showFovButtons?: boolean // 18°/35° bar, default true
+  showPlaces?: boolean     // keyboard "places" toolbar (shown when it takes focus), default true
+  reducedMotion?: boolean  // default: follows prefers-reduced-motion
+  // start pose; position in the model file's coordinates (as authored in the GLB), yaw in degrees
+  spawn?: { position?: Vec3Tuple; yaw?: number }
+  // per-level overrides, matched by detected level id (display name, arrival point in model file coordinates)
+  levels?: { id: string; name?: string; spawn?: Vec3Tuple; yaw?: number }[]
+  hotspots?: Hotspot[] // added to any `Hotspot_*` empties found in the model
+  onHotspotSelect?: (h: Hotspot | null) => void
+  onLevelChange?: (id: string | null) => void
+  onModeChange?: (mode: ViewerMode) => void
+  tour?: Tour // default tour for playTour()
+  measure?: {
+    units?: MeasureUnits    // label units, default 'metric'
+    metersPerUnit?: number  // model file units (glTF: metres, default 1)
+  }
+  onMeasurementsChange?: (list: Measurement[]) => void
+  onMeasureModeChange?: (on: boolean) => void
+  minimap?: {
+    enabled?: boolean       // default true (needs a navmesh)
+    vrController?: 0 | 1 | null // controller the VR map is held by (default 0; the level menu sits on 1)
+  }
+  materialSlots?: MaterialSlot[] // swappable finishes (options defined here, not in the GLB)
+  on?: { [K in keyof ViewerEvents]?: Listener<ViewerEvents[K]> } // early subscriptions (loadprogress/ready fire before initViewer resolves)
+  viewState?: Partial<ViewState> | null // restored once loaded (e.g. from a shared link); invalid positions fall back to the spawn
+  onTourChange?: (status: TourStatus | null) => void // null when the tour ends or the user takes over
+  collision?: {
+    enabled?: boolean   // default true
+    radius?: number     // body radius in metres (default 0.25)
+    stepHeight?: number // max step-up in metres (default 0.35)
+  }
+  zoomMode?: ZoomMode // default 'snap'
+  fovMin?: number     // narrowest zoom (deg, default 18)
+  fovMax?: number     // widest zoom (deg, default 100)
+  keyBindings?: Partial<KeyBindings> // overrides per action; [] disables an action
+  vr?: {
+    turn?: 'snap' | 'smooth' | 'off' // thumbstick left/right (default 'snap')
+    snapAngle?: number  // degrees (default 30)
+    turnSpeed?: number  // smooth turn, degrees per second (default 90)
+    vignette?: number   // comfort vignette during smooth rig motion, 0 (off)..1 (default 0.6)
+  }
+  multiplayer?: MultiplayerOptions | null // co-presence room on the WebSocket relay (server.mjs); off by default
+  analytics?: AnalyticsOptions | null     // visit trace, heatmap / gaze overlays, optional batched upload; off by default
+  section?: SectioningOptions             // section planes / clipping box: capped cut faces (default on), cap colour
+  gamepad?: {
+    enabled?: boolean   // default true (desktop only; XR controllers are separate)
+    deadzone?: number   // default 0.15
+    invertY?: boolean   // right stick look
+  }
+}
+
+export type ViewerMode = 'firstPerson' | 'dollhouse'
+
+// 'snap': wheel/pinch jump between the FOV limits (pinch reverts on release)
+// 'continuous': FOV follows wheel/pinch, zooms toward the cursor and stays where released
+export type ZoomMode = 'snap' | 'continuous'
+
+export type ViewerAction =
+  | 'forward' | 'back' | 'left' | 'right'
+  | 'turnLeft' | 'turnRight' | 'run'
+  | 'navmeshDebug'
+
+// KeyboardEvent.code values per action (layout independent, e.g. 'KeyW', 'ArrowUp', 'ShiftLeft')
+export type KeyBindings = Record<ViewerAction, string[]>
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  forward: ['KeyW', 'ArrowUp'],
+  back: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  turnLeft: ['KeyQ'],
+  turnRight: ['KeyE'],
+  run: ['ShiftLeft', 'ShiftRight'],
+  navmeshDebug: ['KeyN'],
+}
+
+// model scale range of the overlay slider and the wrist menu; view links outside it are rejected
+export const MODEL_SCALE_MIN = 0.05
+export const MODEL_SCALE_MAX = 2
+
+// Point of interest; position in the model file's coordinates (as authored in the GLB)
+export type Hotspot = {
+  id: string
+  position: Vec3Tuple
+  title: string
+  description?: string
+  imageUrl?: string
+}
+
+// Shareable view (deep links); position = the rig's floor point in the model file's coordinates, angles in degrees
+export type ViewState = {
+  position: Vec3Tuple
+  yaw: number
+  pitch: number
+  fov: number       // 18 / 35 restore the matching preset
+  scale: number
+  level: string | null
+  mode: ViewerMode
+  background: boolean
+}
+
+export type ViewerAsset = 'hdri' | 'model' | 'navmesh'
+
+// Event payloads for ViewerHandle.on(); positions in the model file's coordinates
+export type ViewerEvents = {
+  loadprogress: { asset: ViewerAsset; loaded: number; total: number } // bytes; total 0 when unknown
+  ready: { levels: ViewerLevel[] }
+  error: { source: ViewerAsset | 'xr'; error: unknown }  // the viewer keeps running (fallbacks)
+  teleportstart: { from: Vec3Tuple; to: Vec3Tuple; smooth: boolean } // smooth = walked along the route
+  teleportend: { position: Vec3Tuple }
+  aimchange: { point: Vec3Tuple | null } // teleport reticle; null when hidden
+  fovchange: { fov: number; preset: 18 | 35 | null } // target FOV (the camera eases toward it)
+  xrsessionstart: { mode: 'vr' | 'ar' }
+  xrsessionend: Record<string, never>
+  levelchange: { id: string | null; level: ViewerLevel | null }
+  objectclick: { object: THREE.Object3D; name: string; point: Vec3Tuple } // click/trigger on the model surface
+  variantchange: { variant: string | null; slots: MaterialSlotState[] }
+  environmentchange: { id: string | null } // preset chosen (the cross-fade may still be running)
+  arplacement: ARPlacementStatus          // AR session start/end, model placed, mode or pinch scale changed
+  multiplayer: MultiplayerStatus          // connection, participants, presenter or follow changed
+  sectionchange: SectionStatus            // planes / clipping box added, removed or dragged (on release), caps / gizmos toggled
+}
+
+export type ViewerLevel = {
+  id: string        // e.g. 'Level_1' (mesh name) or 'Level_0'.. (clustered, lowest first)
+  name: string
+  index: number     // 0 = lowest floor
+  elevation: number // floor height in model units (before world scale)
 }
 
 export type ViewerHandle = {
@@ -56,17 +244,123 @@ export type ViewerHandle = {
   model?: THREE.Object3D
   mount: HTMLElement
   toggleBackground: () => void
+  readonly environments: EnvironmentPreset[]
+  readonly environment: string | null
+  setEnvironment: (preset: string | EnvironmentPreset, opts?: { fade?: number }) => Promise<boolean> // fade in seconds, 0 = cut
+  readonly exposure: number
+  setExposure: (ev: number) => void // until the next setEnvironment
   resetView: () => void
   setModelScale: (s: number) => void
   setEyeHeight: (h: number) => void
   setFovPreset: (deg: number | null) => void
+  setZoomMode: (mode: ZoomMode) => void
+  levels: ViewerLevel[]
+  readonly currentLevel: string | null
+  goToLevel: (id: string) => void
+  readonly mode: ViewerMode
+  setMode: (mode: ViewerMode) => void
+  readonly hotspots: Hotspot[]
+  addHotspot: (h: Hotspot) => void
+  removeHotspot: (id: string) => void
+  selectHotspot: (id: string | null) => void
+  readonly tour: TourStatus | null
+  playTour: (tour?: Tour) => void
+  pauseTour: () => void
+  resumeTour: () => void
+  skipTourStop: () => void
+  stopTour: () => void
+  readonly measuring: boolean
+  setMeasureMode: (on: boolean) => void
+  readonly measurements: Measurement[]
+  addMeasurement: (a: Vec3Tuple, b: Vec3Tuple) => Measurement // model file coordinates
+  removeMeasurement: (id: string) => void
+  clearMeasurements: () => void
+  setMeasureUnits: (units: MeasureUnits) => void
+  readonly minimap: HTMLCanvasElement | null // floor-plan canvas for the page overlay
+  readonly ar: ARPlacementStatus
+  setARMode: (mode: ARPlacementMode) => void
+  resetARPlacement: () => void // hide the model and show the reticle again
+  readonly variants: string[]          // KHR_materials_variants names in the GLB
+  readonly variant: string | null      // null = the GLB's default materials
+  setVariant: (name: string | null) => Promise<boolean>
+  readonly materialSlots: MaterialSlotState[]
+  setMaterialOption: (slotId: string, option: string | null) => boolean // null = the model's own material
+  readonly multiplayer: MultiplayerStatus | null // null without cfg.multiplayer
+  setPresenter: (on: boolean) => void       // others following see what you see
+  setFollowPresenter: (on: boolean) => void
+  readonly analytics: AnalyticsSummary | null // null without cfg.analytics
+  setAnalyticsOverlay: (kind: AnalyticsOverlay, on: boolean) => void
+  exportAnalytics: () => AnalyticsSession | null
+  readonly section: SectionStatus
+  addSectionPlane: (normal: SectionAxis | Vec3Tuple, point?: Vec3Tuple) => string // model file axes / coordinates; default through the model centre
+  removeSectionPlane: (id: string) => void
+  flipSectionPlane: (id: string) => void   // keep the other side
+  setClipBox: (box: ClipBox | boolean) => void // true: fitted to the model; false: off
+  clearSections: () => void
+  setSectionCaps: (on: boolean) => void
+  setSectionGizmos: (on: boolean) => void  // drag handles (desktop mouse, XR grip)
+  readonly reducedMotion: boolean
+  setReducedMotion: (on: boolean | null) => void // null = follow prefers-reduced-motion again
+  getViewState: () => ViewState
+  on: <K extends keyof ViewerEvents>(type: K, fn: Listener<ViewerEvents[K]>) => () => void
+  off: <K extends keyof ViewerEvents>(type: K, fn: Listener<ViewerEvents[K]>) => void
+  dispose: () => void // prefer disposeViewer(handle)
+  setViewState: (s: Partial<ViewState>) => boolean // false if it fell back to a level arrival / the spawn
+}
+
+// ignore shortcuts while the user types into a form field
+function isTypingTarget(t: EventTarget | null) {
+  const el = t as HTMLElement | null
+  return !!el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))
 }
 
 function safeAppend(parent: HTMLElement | DocumentFragment | null, el: HTMLElement) {
   try { parent?.appendChild(el) } catch (e) { console.warn('[viewer] append failed', e) }
 }
 
+// free GPU resources under `root` (geometries, materials and the textures they reference)
+function disposeObject(root: THREE.Object3D) {
+  root.traverse((o) => {
+    const m = o as THREE.Mesh
+    m.geometry?.dispose()
+    const mats = Array.isArray(m.material) ? m.material : (m.material ? [m.material] : [])
+    for (const mat of mats) {
+      for (const v of Object.values(mat)) if (v instanceof THREE.Texture) v.dispose()
+      mat.dispose()
+    }
+  })
+}
+
 export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Promise<ViewerHandle> {
+  // every window/canvas listener is registered with this signal, so dispose() removes them all
+  const listeners = new AbortController()
+  const { signal } = listeners
+
+  // typed events for the host app (cfg.on subscribes before loading starts)
+  const events = createEmitter<ViewerEvents>()
+  for (const [type, fn] of Object.entries(cfg.on ?? {})) if (fn) events.on(type as keyof ViewerEvents, fn as Listener<unknown>)
+  const progress = (asset: ViewerAsset) => (e: ProgressEvent) => events.emit('loadprogress', { asset, loaded: e.loaded, total: e.lengthComputable ? e.total : 0 })
+
+  // reduced motion (prefers-reduced-motion unless overridden): instant moves, no camera / FOV tweens, no pulsing
+  const motionQuery = typeof window.matchMedia === 'function' ? window.matchMedia('(prefers-reduced-motion: reduce)') : null
+  let reducedMotionOverride: boolean | null = cfg.reducedMotion ?? null
+  let reducedMotion = reducedMotionOverride ?? !!motionQuery?.matches
+  motionQuery?.addEventListener('change', (e) => { if (reducedMotionOverride === null) reducedMotion = e.matches }, { signal })
+
+  // --- navmesh state
+  let navmeshGroup: THREE.Group | null = null        // holds baked navmesh meshes (always visible for raycast)
+  let navmeshMinY: number | null = null              // global lowest Y
+  let navmeshDebugWireOn = false
+
+  // keep the same transform we applied to the model so navmesh can match it
+  const _modelAppliedXform = new THREE.Matrix4().identity()
+
+  // Fallback floor helpers (only used if NO navmesh provided)
+  const _floorPlane = new THREE.Plane()
+  const _floorPosWS = new THREE.Vector3()
+  const _floorNormalWS = new THREE.Vector3(0, 1, 0)
+  const _mouseNDC = new THREE.Vector2(0, 0)
+
   // --- renderer
   const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false })
   renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
@@ -79,19 +373,43 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   try { renderer.xr.setReferenceSpaceType?.('local-floor') } catch {}
   mount.appendChild(renderer.domElement)
   renderer.domElement.style.cursor = 'grab'
+  const loaders = createAssetLoaders(renderer, cfg.decoderPath)
   renderer.domElement.style.touchAction = 'none'
+  renderer.domElement.setAttribute('role', 'img')
+  renderer.domElement.setAttribute('aria-label', '3D view. Walk with W A S D or the arrow keys; press Tab for a list of places to go to.')
+  renderer.domElement.tabIndex = 0 // keys go to the focused viewer (several viewers can share a page)
+
+  // this viewer takes keyboard input while focus is inside its mount, or while hovered with nothing else focused
+  let pointerOver = false
+  renderer.domElement.addEventListener('pointerenter', () => { pointerOver = true }, { signal })
+  renderer.domElement.addEventListener('pointerleave', () => { pointerOver = false }, { signal })
+  const ownsKeys = () => {
+    const active = document.activeElement
+    return mount.contains(active) || (pointerOver && (!active || active === document.body))
+  }
 
   // VR/AR buttons (never throw)
-  try {
-    const vrBtn = VRButton.createButton(renderer)
+  let vrBtn: HTMLElement | null = null
+  let arBtn: HTMLElement | null = null
+  if (cfg.showVRButton ?? true) try {
+    vrBtn = VRButton.createButton(renderer) as HTMLElement
     Object.assign(vrBtn.style, { position: 'fixed', right: '12px', bottom: '12px' })
     safeAppend(document.body, vrBtn)
-  } catch (e) { console.warn('[viewer] VRButton failed', e) }
-  try {
-    const arBtn = ARButton.createButton(renderer, { requiredFeatures: [] })
+  } catch (e) { console.warn('[viewer] VRButton failed', e); events.emit('error', { source: 'xr', error: e }) }
+  // AR dom-overlay root (shown by ARButton during the session; buttons added with the AR placement below)
+  const arOverlay = document.createElement('div')
+  arOverlay.style.display = 'none'
+  arOverlay.addEventListener('beforexrselect', (e) => e.preventDefault(), { signal }) // overlay taps must not place the model
+  if (cfg.showARButton ?? true) try {
+    safeAppend(document.body, arOverlay)
+    arBtn = ARButton.createButton(renderer, { optionalFeatures: ['hit-test', 'dom-overlay'], domOverlay: { root: arOverlay } }) as HTMLElement
     Object.assign(arBtn.style, { position: 'fixed', right: '12px', bottom: '56px' })
     safeAppend(document.body, arBtn)
-  } catch (e) { console.warn('[viewer] ARButton failed', e) }
+  } catch (e) { console.warn('[viewer] ARButton failed', e); events.emit('error', { source: 'xr', error: e }) }
+
+  // input bindings (remappable via cfg.keyBindings)
+  const keyBindings: KeyBindings = { ...DEFAULT_KEY_BINDINGS, ...cfg.keyBindings }
+  const isAction = (code: string, action: ViewerAction) => keyBindings[action].includes(code)
 
   // --- scene & camera
   const scene  = new THREE.Scene()
@@ -101,7 +419,10 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     0.01,
     2000
   )
-  let targetFov = FOV_MAX // start at widest
+  let zoomMode: ZoomMode = cfg.zoomMode ?? 'snap'
+  const fovMin = THREE.MathUtils.clamp(cfg.fovMin ?? FOV_MIN, 1, 179)
+  const fovMax = THREE.MathUtils.clamp(cfg.fovMax ?? FOV_MAX, fovMin, 179)
+  let targetFov = fovMax // start at widest
   camera.fov = targetFov
   camera.updateProjectionMatrix()
 
@@ -120,26 +441,20 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   scene.add(world)
 
   // lighting
-  scene.add(new THREE.HemisphereLight(0xffffff, 0x404040, 0.6))
+  const hemi = new THREE.HemisphereLight(0xffffff, 0x404040, 0.6)
+  scene.add(hemi)
   const dir = new THREE.DirectionalLight(0xffffff, 0.7)
   dir.position.set(5, 10, 5)
   dir.castShadow = false
   scene.add(dir)
 
-  // PMREM/HDRI
-  const pmrem = new THREE.PMREMGenerator(renderer)
-  pmrem.compileEquirectangularShader()
-
-  let envMap: THREE.Texture | null = null
-  async function loadHDRI(url: string) {
-    try {
-      const hdr = await new RGBELoader().loadAsync(url)
-      envMap = pmrem.fromEquirectangular(hdr).texture
-      hdr.dispose()
-      scene.environment = envMap
-      if (cfg.showHDRIBackground) scene.background = envMap
-    } catch (e) { console.warn('[viewer] HDRI load failed (continuing)', e) }
-  }
+  // environment presets (HDRI lighting, exposure, backdrop); PMREMs cached per HDRI + rotation
+  const lighting = createEnvironment({
+    renderer, scene, hemi, dir,
+    progress: progress('hdri'),
+    onError: (e) => events.emit('error', { source: 'hdri', error: e }),
+    onChange: (id) => events.emit('environmentchange', { id }),
+  }, cfg.environments?.length ? cfg.environments : [{ id: 'default', label: 'Default', hdri: cfg.hdriUrl, background: cfg.showHDRIBackground ?? false }])
 
   // ---- fallback floor (used only if no navmesh)
   let navFloor: THREE.Mesh<THREE.PlaneGeometry, THREE.Material> | null = null
@@ -174,34 +489,17 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   // model
   let model: THREE.Object3D | undefined
   let modelXform = new THREE.Matrix4().identity()
+  let modelGltf: GLTF | null = null // kept for material variants
 
   async function loadGLB(url: string) {
-    const gltf = await new GLTFLoader().loadAsync(url)
-    const root = gltf.scene as THREE.Object3D
+    const gltf = await loaders.gltf.loadAsync(url, progress('model'))
+    const root: THREE.Object3D = gltf.scene
     model = root
+    modelGltf = gltf
 
-    const spawn = root.getObjectByName('SpawnPoint')
-    if (spawn) {
-      // Align model to spawn
-      spawn.updateWorldMatrix(true, true)
-      const inv = new THREE.Matrix4().copy(spawn.matrixWorld).invert()
-      root.applyMatrix4(inv)
-      modelXform.copy(inv)
-      _modelAppliedXform.copy(inv) // << remember model transform
-    } else {
-      // Auto center/scale
-      const box = new THREE.Box3().setFromObject(root)
-      const size = new THREE.Vector3(); box.getSize(size)
-      const center = new THREE.Vector3(); box.getCenter(center)
-      const targetHeight = 1.5
-      const s = targetHeight / (size.y || 1.0)
-      const T1 = new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z)
-      const S  = new THREE.Matrix4().makeScale(s, s, s)
-      const T2 = new THREE.Matrix4().makeTranslation(0, 1.0, 0)
-      modelXform.copy(T2).multiply(S).multiply(T1)
-      root.applyMatrix4(modelXform)
-      _modelAppliedXform.copy(modelXform) // << remember model transform
-    }
+    modelXform = modelPlacement(root) // SpawnPoint-aligned, else auto centred / scaled
+    root.applyMatrix4(modelXform)
+    _modelAppliedXform.copy(modelXform) // << remember model transform
 
     world.add(root)
     ensureNavFloor()
@@ -209,9 +507,9 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   }
 
   // NAVMESH loader (supports many child meshes). Keeps meshes VISIBLE for raycast, but non-rendering.
-  async function loadNavmesh(url: string) {
+  async function loadNavmesh(pending: Promise<GLTF>) {
     try {
-      const gltf = await new GLTFLoader().loadAsync(url)
+      const gltf = await pending
 
       // group to hold baked world-space copies (added to scene root)
       navmeshGroup = new THREE.Group()
@@ -242,8 +540,14 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
           ;(mat as any).depthWrite = false
 
           const bakedMesh = new THREE.Mesh(baked, mat)
+          bakedMesh.name = m.name
           bakedMesh.visible = true          // ALWAYS visible so Raycaster will hit it
           bakedMesh.renderOrder = -1
+          // level tag from the mesh or any parent name (Level_1, Floor_2, …)
+          for (let p: THREE.Object3D | null = m; p; p = p.parent) {
+            const match = LEVEL_NAME_RE.exec(p.name)
+            if (match) { bakedMesh.userData.levelTag = `Level_${match[1]}`; break }
+          }
           navmeshGroup!.add(bakedMesh)
         }
       })
@@ -257,10 +561,14 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
       }
 
       navmeshMinY = isFinite(minY) ? minY : null
+      buildNavZone()
+      levels = detectLevels(navmeshGroup.children as THREE.Mesh[], new THREE.Vector3().setFromMatrixScale(_modelAppliedXform).x)
+      for (const l of levels) l.name = cfg.levels?.find((o) => o.id === l.id)?.name ?? l.name
+      levelArrivals = levelCentroids(navmeshGroup.children as THREE.Mesh[], levels)
 
-      // DEBUG wireframe toggle (N)
+      // DEBUG wireframe toggle (N by default)
       window.addEventListener('keydown', (ev) => {
-        if (ev.key.toLowerCase() === 'n' && navmeshGroup) {
+        if (isAction(ev.code, 'navmeshDebug') && ownsKeys() && !isTypingTarget(ev.target) && navmeshGroup) {
           navmeshDebugWireOn = !navmeshDebugWireOn
           navmeshGroup.children.forEach((c) => {
             const mesh = c as THREE.Mesh
@@ -273,20 +581,69 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
           })
           console.log(`[viewer] Navmesh debug ${navmeshDebugWireOn ? 'ON' : 'OFF'} minY:`, navmeshMinY)
         }
-      })
+      }, { signal })
     } catch (e) {
       console.warn('[viewer] navmesh load failed', e)
+      events.emit('error', { source: 'navmesh', error: e })
       if (navmeshGroup) scene.remove(navmeshGroup)
       navmeshGroup = null
       navmeshMinY = null
     }
   }
 
-  if (cfg.hdriUrl) await loadHDRI(cfg.hdriUrl)
+  // floors found in the navmesh (empty without navmesh); current one follows the rig height
+  let levels: ViewerLevel[] = []
+  let levelArrivals = new Map<string, THREE.Vector3>() // navmesh centroid per level (model units)
+  let currentLevel: string | null = null
+
+  // Pathfinding zone built from ALL navmesh meshes (in navmeshGroup local space, i.e. before world scale)
+  let pathfinder: Pathfinding | null = null
+  function buildNavZone() {
+    pathfinder = null
+    if (!navmeshGroup) return
+    try {
+      const geoms = navmeshGroup.children.map((c) => {
+        const g = (c as THREE.Mesh).geometry
+        return g.index ? g.toNonIndexed() : g.clone()
+      })
+      const merged = mergeGeometries(geoms, false) as THREE.BufferGeometry | null
+      geoms.forEach((g) => g.dispose())
+      if (!merged) { console.warn('[viewer] navmesh merge failed; pathfinding disabled'); return }
+      const pf = new Pathfinding()
+      pf.setZoneData(NAV_ZONE, Pathfinding.createZone(merged))
+      merged.dispose()
+      pathfinder = pf
+    } catch (e) { console.warn('[viewer] pathfinding zone build failed (straight-line moves)', e) }
+  }
+
+  // World-space route from `from` to `to` along the navmesh (excluding `from`), or null if unreachable.
+  function findNavPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    if (!pathfinder || !navmeshGroup) return null
+    const start = navmeshGroup.worldToLocal(from.clone())
+    const end = navmeshGroup.worldToLocal(to.clone())
+    const groupID = pathfinder.getGroup(NAV_ZONE, start)
+    if (groupID === null || groupID !== pathfinder.getGroup(NAV_ZONE, end, true)) return null
+
+    let path = pathfinder.findPath(start, end, NAV_ZONE, groupID)
+    if (!path) {
+      // start is off the mesh (e.g. spawn outside) -> walk to the nearest polygon first
+      const node = pathfinder.getClosestNode(start, NAV_ZONE, groupID)
+      const via = node ? pathfinder.findPath(node.centroid, end, NAV_ZONE, groupID) : null
+      if (via) path = [node.centroid.clone(), ...via]
+    }
+    if (!path || path.length === 0) return null
+    return path.map((p) => navmeshGroup!.localToWorld(p.clone()))
+  }
+
+  // all downloads start together; the navmesh is baked after the model (it needs the model's transform)
+  const navmeshPending = cfg.navmeshUrl ? loaders.gltf.loadAsync(cfg.navmeshUrl, progress('navmesh')) : null
+  navmeshPending?.catch(() => {}) // reported by loadNavmesh
+  const lightingReady = lighting.set(cfg.environment ?? lighting.presets[0].id, 0)
   if (cfg.modelUrl) {
     try { await loadGLB(cfg.modelUrl) }
     catch (e) {
       console.warn('[viewer] model load failed; using fallback cube', e)
+      events.emit('error', { source: 'model', error: e })
       const cube = new THREE.Mesh(
         new THREE.BoxGeometry(1,1,1),
         new THREE.MeshStandardMaterial({ metalness: 0.2, roughness: 0.5 })
@@ -307,7 +664,11 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     _modelAppliedXform.identity()
   }
 
-  if (cfg.navmeshUrl) await loadNavmesh(cfg.navmeshUrl)
+  await lightingReady
+  if (navmeshPending) await loadNavmesh(navmeshPending)
+
+  // model bounds in world-local units (before the world scale), for AR placement
+  const modelBounds = model ? new THREE.Box3().setFromObject(model) : new THREE.Box3(new THREE.Vector3(), new THREE.Vector3())
 
   // scale
   let currentScale = cfg.initialModelScale ?? 1
@@ -321,6 +682,119 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   }
   syncNavmeshScale(currentScale)
 
+  // navmesh surface height under (x, z), searched downward from just above `nearY` (world space)
+  const navRaycaster = new THREE.Raycaster()
+  navRaycaster.far = NAV_PROBE_UP + LEVEL_MIN_GAP
+  const _probeOrigin = new THREE.Vector3()
+  const _down = new THREE.Vector3(0, -1, 0)
+  function navHeightAt(x: number, z: number, nearY: number): number | null {
+    if (!navmeshGroup) return null
+    navRaycaster.set(_probeOrigin.set(x, nearY + NAV_PROBE_UP, z), _down)
+    const hit = navRaycaster.intersectObjects(navmeshGroup.children, true)[0]
+    return hit ? hit.point.y : null
+  }
+
+  // --- collision: horizontal probes against the model; navmesh edges act as walls too
+  const collision = {
+    enabled: cfg.collision?.enabled ?? true,
+    radius: Math.max(0.01, cfg.collision?.radius ?? COLLISION_RADIUS),
+    stepHeight: Math.max(0, cfg.collision?.stepHeight ?? COLLISION_STEP),
+  }
+  const colRaycaster = new THREE.Raycaster()
+  const _colOrigin = new THREE.Vector3()
+  const _colDir = new THREE.Vector3()
+  const _colSide = new THREE.Vector3()
+  const _colN = new THREE.Vector3()
+  const _colBox = new THREE.Box3()
+  const _colToGroup = new THREE.Matrix4()
+  const _colNear: THREE.Mesh[] = []
+
+  // model meshes with their bounds in the world group's space (static after load; the group itself moves / scales)
+  let wallMeshes: { mesh: THREE.Mesh; box: THREE.Box3 }[] | null = null
+  function collectWallMeshes() {
+    const list: { mesh: THREE.Mesh; box: THREE.Box3 }[] = []
+    if (model) {
+      model.updateWorldMatrix(true, true)
+      const toGroup = new THREE.Matrix4().copy(world.matrixWorld).invert()
+      model.traverse((o) => {
+        const mesh = o as THREE.Mesh
+        if (!mesh.isMesh) return
+        if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox()
+        list.push({ mesh, box: mesh.geometry.boundingBox!.clone().applyMatrix4(new THREE.Matrix4().multiplyMatrices(toGroup, mesh.matrixWorld)) })
+      })
+    }
+    return list
+  }
+
+  // nearest wall (horizontal normal, facing the mover) within `reach` along `dir`, probed at step + chest height
+  function probeWall(dir: THREE.Vector3, reach: number): { distance: number; normal: THREE.Vector3 } | null {
+    if (!model) return null
+    _colSide.set(-dir.z, 0, dir.x).multiplyScalar(collision.radius * 0.7)
+    const feet = rig.position.y
+    const probes: [number, number][] = [
+      [0, feet + collision.stepHeight + 0.05],
+      [0, feet + Math.max(collision.stepHeight + 0.1, eyeHeight * 0.75)],
+      [1, feet + collision.stepHeight + 0.05],
+      [-1, feet + collision.stepHeight + 0.05],
+    ]
+    // only meshes whose bounds reach the probed box around the rig
+    wallMeshes ??= collectWallMeshes()
+    const r = reach + collision.radius
+    _colBox.min.set(rig.position.x - r, feet, rig.position.z - r)
+    _colBox.max.set(rig.position.x + r, feet + Math.max(collision.stepHeight + 0.1, eyeHeight * 0.75) + 0.01, rig.position.z + r)
+    _colBox.applyMatrix4(_colToGroup.copy(world.matrixWorld).invert())
+    _colNear.length = 0
+    for (const w of wallMeshes) if (w.box.intersectsBox(_colBox)) _colNear.push(w.mesh)
+    if (_colNear.length === 0) return null
+
+    colRaycaster.far = reach
+    let best: { distance: number; normal: THREE.Vector3 } | null = null
+    for (const [side, y] of probes) {
+      _colOrigin.set(rig.position.x, y, rig.position.z).addScaledVector(_colSide, side)
+      colRaycaster.set(_colOrigin, dir)
+      for (const hit of colRaycaster.intersectObjects(_colNear, false)) {
+        if (best && hit.distance >= best.distance) break
+        if (!hit.face) continue
+        _colN.copy(hit.face.normal).transformDirection(hit.object.matrixWorld)
+        _colN.y = 0
+        if (_colN.lengthSq() < 0.04) continue // floors/ceilings/ramps
+        _colN.normalize()
+        if (_colN.dot(dir) > 0) _colN.negate() // double-sided / back faces
+        best = { distance: hit.distance, normal: _colN.clone() }
+        break
+      }
+    }
+    return best
+  }
+
+  // Constrains a horizontal step (in place): slides along model walls (collision on) and always stays on the navmesh.
+  function constrainMove(delta: THREE.Vector3): THREE.Vector3 {
+    delta.y = 0
+    for (let i = 0; collision.enabled && i < COLLISION_ITERS; i++) {
+      const len = delta.length()
+      if (len < 1e-6) break
+      const hit = probeWall(_colDir.copy(delta).divideScalar(len), len + collision.radius)
+      if (!hit) break
+      const into = delta.dot(hit.normal)
+      if (into >= 0) break
+      // advance up to the body radius, slide the rest along the wall
+      const free = Math.max(0, hit.distance - collision.radius)
+      const slide = delta.clone().addScaledVector(hit.normal, -into)
+      delta.copy(_colDir).multiplyScalar(Math.min(free, len)).add(slide.multiplyScalar(1 - Math.min(free, len) / len))
+      if (i === COLLISION_ITERS - 1) delta.set(0, 0, 0) // still blocked (tight corner)
+    }
+    // navmesh boundary: try the full step, then each axis alone
+    if (navmeshGroup && delta.lengthSq() > 0) {
+      const { x, y, z } = rig.position
+      if (navHeightAt(x + delta.x, z + delta.z, y) === null) {
+        if (navHeightAt(x + delta.x, z, y) !== null) delta.z = 0
+        else if (navHeightAt(x, z + delta.z, y) !== null) delta.x = 0
+        else delta.set(0, 0, 0)
+      }
+    }
+    return delta
+  }
+
   // ensure floor exists and is positioned after initial content (fallback only)
   ensureNavFloor()
   stickNavFloorToMinY()
@@ -336,6 +810,166 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   marker.visible = false
   scene.add(marker)
 
+  // --- path preview (route the rig will walk on a smooth move)
+  const pathPreviewGeom = new THREE.BufferGeometry()
+  pathPreviewGeom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(PATH_PREVIEW_MAX * 3), 3))
+  const pathPreview = new THREE.Line(
+    pathPreviewGeom,
+    new THREE.LineBasicMaterial({ color: 0x60a5fa, transparent: true, opacity: 0.85, depthTest: false })
+  )
+  pathPreview.renderOrder = 997
+  pathPreview.frustumCulled = false
+  pathPreview.visible = false
+  scene.add(pathPreview)
+  const _previewAim = new THREE.Vector3(Infinity, 0, Infinity)
+  const _previewFrom = new THREE.Vector3(Infinity, 0, Infinity)
+
+  function showPathPreview(points: THREE.Vector3[]) {
+    const pos = pathPreviewGeom.getAttribute('position') as THREE.BufferAttribute
+    const n = Math.min(points.length, PATH_PREVIEW_MAX)
+    for (let i = 0; i < n; i++) pos.setXYZ(i, points[i].x, points[i].y + 0.02, points[i].z)
+    pos.needsUpdate = true
+    pathPreviewGeom.setDrawRange(0, n)
+    pathPreview.visible = n >= 2
+  }
+  function hidePathPreview() {
+    pathPreview.visible = false
+    _previewAim.set(Infinity, 0, Infinity)
+  }
+
+  // --- hotspots: marker sprites under `world` (scale with the model); picked before the teleport reticle
+  const hotspotGroup = new THREE.Group(); hotspotGroup.name = 'Hotspots'
+  world.add(hotspotGroup)
+  const hotspots = new Map<string, { data: Hotspot; sprite: THREE.Sprite }>()
+  let hoveredHotspot: string | null = null
+  let selectedHotspot: string | null = null
+  const hotspotMarkers = createHotspotMarkers()
+  const hotspotPanel = createHotspotPanel()
+  scene.add(hotspotPanel.object)
+  let placesBar: HTMLElement | null = null // keyboard places toolbar (built with the UI below)
+  const _modelInv = new THREE.Matrix4()
+
+  function addHotspot(h: Hotspot) {
+    removeHotspot(h.id)
+    const sprite = hotspotMarkers.create(h)
+    sprite.position.fromArray(h.position).applyMatrix4(_modelAppliedXform)
+    hotspotGroup.add(sprite)
+    hotspots.set(h.id, { data: h, sprite })
+    refreshPlaces()
+  }
+
+  function removeHotspot(id: string) {
+    const e = hotspots.get(id)
+    if (!e) return
+    if (selectedHotspot === id) selectHotspot(null)
+    hotspotGroup.remove(e.sprite)
+    e.sprite.material.dispose()
+    hotspots.delete(id)
+    refreshPlaces()
+  }
+
+  function selectHotspot(id: string | null) {
+    const e = id ? hotspots.get(id) : undefined
+    selectedHotspot = e ? e.data.id : null
+    if (e && renderer.xr.isPresenting) {
+      // card above the marker, turned toward the viewer
+      const p = e.sprite.getWorldPosition(new THREE.Vector3())
+      const eye = renderer.xr.getCamera().getWorldPosition(new THREE.Vector3())
+      hotspotPanel.object.position.copy(p).add(new THREE.Vector3(0, 0.3, 0))
+      hotspotPanel.object.lookAt(eye.x, hotspotPanel.object.position.y, eye.z)
+      hotspotPanel.show(e.data)
+    } else {
+      hotspotPanel.hide()
+    }
+    if (e) analytics?.record({ type: 'hotspot', id: e.data.id })
+    cfg.onHotspotSelect?.(e ? e.data : null)
+  }
+
+  // nearest unclipped hotspot along the raycaster's ray (raycaster.camera must be set for sprites)
+  function pickHotspot(rc: THREE.Raycaster): string | null {
+    if (hotspots.size === 0) return null
+    const hit = firstUnclippedHit(rc.intersectObjects(hotspotGroup.children, false))
+    return hit ? (hit.object.userData.hotspotId as string) : null
+  }
+
+  // `Hotspot_*` empties in the GLB (glTF `extras` arrive as userData: title, description, image)
+  model?.traverse((o) => {
+    if (!o.name.startsWith('Hotspot_')) return
+    const x = o.userData as Record<string, unknown>
+    world.updateMatrixWorld(true)
+    const local = world.worldToLocal(o.getWorldPosition(new THREE.Vector3()))
+    const filePos = local.applyMatrix4(_modelInv.copy(_modelAppliedXform).invert())
+    addHotspot({
+      id: o.name,
+      position: filePos.toArray() as Vec3Tuple,
+      title: typeof x.title === 'string' ? x.title : o.name.slice('Hotspot_'.length).replace(/_/g, ' '),
+      description: typeof x.description === 'string' ? x.description : undefined,
+      imageUrl: typeof x.image === 'string' ? x.image : (typeof x.imageUrl === 'string' ? x.imageUrl : undefined),
+    })
+  })
+  cfg.hotspots?.forEach(addHotspot)
+
+  // --- measuring: two picks on the model surface -> dimension line, reported in model file units
+  let measuring = false
+  const measure = createMeasureTool({
+    // undo the world scale and the load-time alignment/auto-fit, so lengths match the file
+    toFile: worldToModel,
+    toWorld: (f) => modelToWorld(f.toArray() as Vec3Tuple),
+    onChange: (list) => { refreshWristMenu(); cfg.onMeasurementsChange?.(list) },
+  }, cfg.measure)
+  scene.add(measure.object)
+  const idleCursor = () => (measuring ? 'crosshair' : 'grab')
+
+  // model surface under the ray, snapped to a nearby corner/edge (pixel tolerance on desktop, angular in XR)
+  function measureHit(rc: THREE.Raycaster, cam: THREE.PerspectiveCamera | null) {
+    if (!model) return null
+    const hit = firstUnclippedHit(rc.intersectObject(model, true))
+    if (!hit) return null
+    const tol = cam
+      ? hit.distance * 2 * Math.tan(THREE.MathUtils.degToRad(cam.fov / 2)) * MEASURE_SNAP_PX / Math.max(1, renderer.domElement.clientHeight)
+      : hit.distance * MEASURE_SNAP_ANGLE
+    return snapToFeature(hit, tol)
+  }
+
+  function setMeasureMode(on: boolean) {
+    if (on === measuring) return
+    measuring = on
+    measure.cancel(); measure.hover(null)
+    if (on) {
+      moveTarget = null; movePath = []
+      hidePathPreview()
+      if (selectedHotspot) selectHotspot(null)
+    }
+    renderer.domElement.style.cursor = idleCursor()
+    refreshWristMenu()
+    cfg.onMeasureModeChange?.(on)
+  }
+
+  // --- minimap: navmesh outline of the current floor (cached per level); click or VR ray teleports there
+  const minimap = (navmeshGroup && (cfg.minimap?.enabled ?? true)) ? createMinimap({ onPick: (x, z) => minimapTeleport(x, z) }) : null
+  const minimapFloors = new Map<string, MinimapFloor | null>()
+  const _heading = new THREE.Vector3()
+
+  function refreshMinimapFloor() {
+    if (!minimap || !navmeshGroup) return
+    const lvl = levels.length > 1 ? currentLevel : null
+    const key = lvl ?? '*'
+    if (!minimapFloors.has(key)) {
+      minimapFloors.set(key, floorOutline(navmeshGroup.children as THREE.Mesh[], (y) => !lvl || levelForHeight(levels, y)?.id === lvl))
+    }
+    minimap.setFloor(minimapFloors.get(key) ?? null)
+  }
+
+  // map point (navmesh-local x, z) -> stand on the current floor there
+  function minimapTeleport(x: number, z: number) {
+    const lvl = levels.find((l) => l.id === currentLevel)
+    const nearY = lvl ? lvl.elevation * currentScale : rig.position.y
+    const y = navHeightAt(x * currentScale, z * currentScale, nearY)
+    if (y === null) return // outside the walkable area
+    tour.stop()
+    fadeTeleport(() => { moveTo(new THREE.Vector3(x * currentScale, y, z * currentScale), false); standLight.intensity = 1.6 })
+  }
+
   // --- standing indicator (glow sprite + subtle point light)
   const standLight = new THREE.PointLight(0xffaa66, 0.9, 3.0, 2.0)
   standLight.position.set(0, 0.1, 0)
@@ -364,11 +998,77 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   const raycaster = new THREE.Raycaster()
   const clock = new THREE.Clock()
   let moveTarget: THREE.Vector3 | null = null
+  let movePath: THREE.Vector3[] = [] // remaining waypoints after moveTarget
+  let moveBlocked = 0                // consecutive frames the smooth move made no progress
 
   const down = new THREE.Vector2()
   let downTime = 0
   let dragging = false
 
+  // keyboard + gamepad continuous locomotion (desktop, first person)
+  const keysDown = new Set<string>()
+  window.addEventListener('keydown', (e) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || !ownsKeys() || isTypingTarget(e.target)) return
+    if ((e.target as HTMLElement | null)?.closest?.('[role="toolbar"]')) return // toolbars use the arrows themselves
+    keysDown.add(e.code)
+    if (e.code === 'Escape' && measuring) measure.cancel()
+    if (tour.active && (e.code === 'Escape' || (Object.keys(keyBindings) as ViewerAction[]).some((a) => isAction(e.code, a)))) tour.stop()
+    if (e.code.startsWith('Arrow') && (Object.keys(keyBindings) as ViewerAction[]).some((a) => isAction(e.code, a))) e.preventDefault()
+  }, { signal })
+  window.addEventListener('keyup', (e) => { keysDown.delete(e.code) }, { signal })
+  window.addEventListener('blur', () => keysDown.clear(), { signal })
+  mount.addEventListener('focusout', (e) => { if (!mount.contains(e.relatedTarget as Node | null)) keysDown.clear() }, { signal })
+
+  const gamepadCfg = {
+    enabled: cfg.gamepad?.enabled ?? true,
+    deadzone: cfg.gamepad?.deadzone ?? GAMEPAD_DEADZONE,
+    invertY: cfg.gamepad?.invertY ?? false,
+  }
+  const deadzone = (v: number) => (Math.abs(v) < gamepadCfg.deadzone ? 0 : (v - Math.sign(v) * gamepadCfg.deadzone) / (1 - gamepadCfg.deadzone))
+
+  function activeGamepad(): Gamepad | null {
+    if (!gamepadCfg.enabled || !navigator.getGamepads) return null
+    for (const gp of navigator.getGamepads()) if (gp?.connected && gp.axes.length >= 4) return gp
+    return null
+  }
+
+  const _walk = new THREE.Vector3()
+  function updateLocomotion(dt: number) {
+    if (renderer.xr.isPresenting || mode !== 'firstPerson' || camTween) return
+    const held = (a: ViewerAction) => keyBindings[a].some((c) => keysDown.has(c))
+    const gp = activeGamepad()
+    if (tour.active) {
+      // any stick/button on the gamepad hands control back
+      if (gp && (gp.axes.some((v) => deadzone(v) !== 0) || gp.buttons.some((b) => b.pressed))) tour.stop()
+      else return
+    }
+
+    // strafe (x) / forward (z) in [-1, 1], turning in rad
+    let mx = (held('right') ? 1 : 0) - (held('left') ? 1 : 0)
+    let mz = (held('forward') ? 1 : 0) - (held('back') ? 1 : 0)
+    let run = held('run')
+    yaw.rotation.y += ((held('turnLeft') ? 1 : 0) - (held('turnRight') ? 1 : 0)) * TURN_SPEED * dt
+    if (gp) {
+      mx += deadzone(gp.axes[0]); mz -= deadzone(gp.axes[1])
+      run = run || !!gp.buttons[10]?.pressed // left stick click
+      yaw.rotation.y -= deadzone(gp.axes[2]) * GAMEPAD_LOOK_SPEED * dt
+      pitch.rotation.x -= deadzone(gp.axes[3]) * (gamepadCfg.invertY ? -1 : 1) * GAMEPAD_LOOK_SPEED * dt
+      pitch.rotation.x = THREE.MathUtils.clamp(pitch.rotation.x, -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
+    }
+    const mag = Math.hypot(mx, mz)
+    if (mag < 1e-3) return
+
+    // user took over: drop any click-to-move in progress
+    if (moveTarget) { moveTarget = null; movePath = []; hidePathPreview() }
+    const step = MOVE_SPEED * (run ? RUN_MULT : 1) * dt / Math.max(1, mag)
+    const sin = Math.sin(yaw.rotation.y), cos = Math.cos(yaw.rotation.y)
+    _walk.set((mx * cos - mz * sin) * step, 0, (-mx * sin - mz * cos) * step)
+    rig.position.add(constrainMove(_walk))
+    const y = navHeightAt(rig.position.x, rig.position.z, rig.position.y)
+    if (y !== null) rig.position.y = y
+    updateCurrentLevel()
+  }
+
   // desktop drag-to-look
   let isDragging = false
   let lastX = 0, lastY = 0
@@ -377,62 +1077,141 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     const rect = renderer.domElement.getBoundingClientRect()
     _mouseNDC.x = ((e.clientX - rect.left) / rect.width) * 2 - 1
     _mouseNDC.y = -((e.clientY - rect.top) / rect.height) * 2 + 1
-  }, { passive: true })
+  }, { passive: true, signal })
 
   renderer.domElement.addEventListener('mousedown', (e) => {
     if (renderer.xr.isPresenting) return
+    const rc = sectionRayAt(e.clientX, e.clientY)
+    const sectionHandle = camTween ? null : sectioning.pick(rc)
+    if (sectionHandle && grabSection('mouse', sectionHandle, rc.ray)) { renderer.domElement.style.cursor = 'grabbing'; return }
+    tour.stop()
     isDragging = true
     lastX = e.clientX; lastY = e.clientY
     down.set(e.clientX, e.clientY); downTime = performance.now()
     dragging = false
     renderer.domElement.style.cursor = 'grabbing'
-  })
+  }, { signal })
 
   renderer.domElement.addEventListener('mousemove', (e) => {
     if (renderer.xr.isPresenting) return
+    if (sectionGrab === 'mouse') { sectioning.drag(sectionRayAt(e.clientX, e.clientY).ray); return }
     if (!isDragging) return
     const dx = e.clientX - lastX
     const dy = e.clientY - lastY
     lastX = e.clientX; lastY = e.clientY
+    dragging = true
+    if (camTween) return
+    if (mode === 'dollhouse') { orbitBy(dx * ORBIT_SENS_MOUSE, dy * ORBIT_SENS_MOUSE); return }
     yaw.rotation.y -= dx * LOOK_SENS_MOUSE
     pitch.rotation.x -= dy * LOOK_SENS_MOUSE
     pitch.rotation.x = THREE.MathUtils.clamp(pitch.rotation.x, -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
     dragging = true
-  })
+  }, { signal })
 
   renderer.domElement.addEventListener('mouseup', (e) => {
     if (renderer.xr.isPresenting) return
+    if (sectionGrab === 'mouse') { releaseSection('mouse'); renderer.domElement.style.cursor = 'move'; return }
     const dx = e.clientX - down.x, dy = e.clientY - down.y
     const dtUp = performance.now() - downTime
     const moved = (dx*dx + dy*dy) > (CLICK_PX*CLICK_PX)
-    if (!moved && dtUp <= CLICK_MS && marker.visible) {
-      moveTo(aimPoint, true)
-      standLight.intensity = 1.6
-    }
+    if (!moved && dtUp <= CLICK_MS) clickAt(e.clientX, e.clientY)
     isDragging = false
     dragging = false
-    renderer.domElement.style.cursor = 'grab'
-  })
+    renderer.domElement.style.cursor = idleCursor()
+  }, { signal })
 
   renderer.domElement.addEventListener('mouseleave', () => {
+    releaseSection('mouse')
     isDragging = false
     dragging = false
-    renderer.domElement.style.cursor = 'grab'
-  })
+    renderer.domElement.style.cursor = idleCursor()
+  }, { signal })
+
+  // tap/click: measure point (measure mode), else hotspot under the pointer, else move to the reticle
+  const _clickNDC = new THREE.Vector2()
+  function clickAt(clientX: number, clientY: number) {
+    if (camTween) return
+    const cam = (mode === 'dollhouse') ? dollCam : camera
+    raycaster.setFromCamera(toNDC(clientX, clientY, _clickNDC), cam)
+    if (measuring) {
+      const snap = measureHit(raycaster, cam)
+      if (snap) measure.pick(snap.point)
+      return
+    }
+    const id = pickHotspot(raycaster)
+    if (id) { selectHotspot(id === selectedHotspot ? null : id); return }
+    emitObjectClick(raycaster)
+    if (marker.visible) clickMove()
+  }
+
+  function emitObjectClick(rc: THREE.Raycaster) {
+    if (!model || !events.has('objectclick')) return
+    const hit = firstUnclippedHit(rc.intersectObject(model, true))
+    if (hit) events.emit('objectclick', { object: hit.object, name: hit.object.name, point: toTuple(worldToModel(hit.point)) })
+  }
+
+  function clickMove() {
+    if (camTween) return
+    if (mode === 'dollhouse') flyDownTo(aimPoint)
+    else moveTo(aimPoint, true)
+    standLight.intensity = 1.6
+  }
 
-  // --- SNAP ZOOM for trackpad/mouse wheel
+  function orbitBy(dAzimuth: number, dPolar: number) {
+    orbit.azimuth -= dAzimuth
+    orbit.polar = THREE.MathUtils.clamp(orbit.polar - dPolar, ORBIT_POLAR_MIN, ORBIT_POLAR_MAX)
+  }
+
+  // --- SNAP ZOOM for trackpad/mouse wheel (dollhouse: orbit distance)
   renderer.domElement.addEventListener('wheel', (e) => {
     e.preventDefault()
-    if (!WHEEL_ZOOM_SNAP) return
-    if (e.deltaY < 0) targetFov = FOV_MIN // zoom in
-    else if (e.deltaY > 0) targetFov = FOV_MAX // zoom out
-  }, { passive: false })
+    tour.stop()
+    if (mode === 'dollhouse') {
+      orbit.dist = THREE.MathUtils.clamp(orbit.dist * (e.deltaY > 0 ? 1.1 : 1 / 1.1), orbit.minDist, orbit.maxDist)
+      return
+    }
+    if (zoomMode === 'continuous') {
+      const px = e.deltaY * (e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? 400 : 1)
+      zoomTo(fovScaled(targetFov, Math.exp(px * WHEEL_ZOOM_RATE)), toNDC(e.clientX, e.clientY, _zoomAnchor))
+      return
+    }
+    if (e.deltaY < 0) targetFov = fovMin // zoom in
+    else if (e.deltaY > 0) targetFov = fovMax // zoom out
+  }, { passive: false, signal })
+
+  // --- continuous zoom: keep the point under the cursor/pinch fixed while the FOV tweens
+  const _zoomAnchor = new THREE.Vector2()
+  let zoomAnchor: THREE.Vector2 | null = null
+
+  function toNDC(clientX: number, clientY: number, out: THREE.Vector2) {
+    const rect = renderer.domElement.getBoundingClientRect()
+    return out.set(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1)
+  }
+  // FOV whose zoom factor (tan of half-angle) is `k` times that of `fov`
+  function fovScaled(fov: number, k: number) {
+    return THREE.MathUtils.radToDeg(2 * Math.atan(Math.tan(THREE.MathUtils.degToRad(fov) / 2) * k))
+  }
+  function zoomTo(fov: number, anchor: THREE.Vector2 | null) {
+    targetFov = THREE.MathUtils.clamp(fov, fovMin, fovMax)
+    zoomAnchor = anchor
+    if (activePreset !== null) { activePreset = null; updateBtnStates() }
+  }
+  // rotate yaw/pitch so the view direction through `zoomAnchor` is unchanged by a FOV change
+  function compensateZoom(fromFov: number, toFov: number) {
+    if (!zoomAnchor) return
+    const t0 = Math.tan(THREE.MathUtils.degToRad(fromFov) / 2), t1 = Math.tan(THREE.MathUtils.degToRad(toFov) / 2)
+    yaw.rotation.y -= Math.atan(zoomAnchor.x * t0 * camera.aspect) - Math.atan(zoomAnchor.x * t1 * camera.aspect)
+    pitch.rotation.x += Math.atan(zoomAnchor.y * t0) - Math.atan(zoomAnchor.y * t1)
+    pitch.rotation.x = THREE.MathUtils.clamp(pitch.rotation.x, -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
+  }
 
-  // touch drag-to-look + two-finger pinch-to-zoom (SNAP + revert on release)
+  // touch drag-to-look + two-finger pinch-to-zoom (snap + revert on release, or continuous)
   let lastTouchX = 0, lastTouchY = 0
   let pinchActive = false
   let pinchStartDist = 0
   let pinchSnapChosen = false
+  let pinchStartOrbitDist = 0
+  let pinchStartFov = 0
 
   function dist2D(ax: number, ay: number, bx: number, by: number) {
     const dx = ax - bx, dy = ay - by
@@ -441,6 +1220,7 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
 
   renderer.domElement.addEventListener('touchstart', (e) => {
     if (renderer.xr.isPresenting) return
+    tour.stop()
 
     if (e.touches.length === 1) {
       const t = e.touches[0]
@@ -451,21 +1231,38 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     } else if (e.touches.length >= 2) {
       const a = e.touches[0], b = e.touches[1]
       pinchStartDist = dist2D(a.clientX, a.clientY, b.clientX, b.clientY)
+      pinchStartOrbitDist = orbit.dist
+      pinchStartFov = targetFov
       pinchActive = true
       pinchSnapChosen = false
       dragging = false
     }
-  }, { passive: true })
+  }, { passive: true, signal })
 
   renderer.domElement.addEventListener('touchmove', (e) => {
     if (renderer.xr.isPresenting) return
 
-    if (e.touches.length >= 2 && pinchActive && PINCH_ZOOM_SNAP) {
+    if (e.touches.length >= 2 && pinchActive && mode === 'dollhouse') {
+      const a = e.touches[0], b = e.touches[1]
+      const d = dist2D(a.clientX, a.clientY, b.clientX, b.clientY)
+      orbit.dist = THREE.MathUtils.clamp(pinchStartOrbitDist * pinchStartDist / Math.max(1, d), orbit.minDist, orbit.maxDist)
+      return
+    }
+
+    if (e.touches.length >= 2 && pinchActive && zoomMode === 'continuous') {
+      const a = e.touches[0], b = e.touches[1]
+      const d = dist2D(a.clientX, a.clientY, b.clientX, b.clientY)
+      const mid = toNDC((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2, _zoomAnchor)
+      zoomTo(fovScaled(pinchStartFov, pinchStartDist / Math.max(1, d)), mid)
+      return
+    }
+
+    if (e.touches.length >= 2 && pinchActive) {
       const a = e.touches[0], b = e.touches[1]
       const d = dist2D(a.clientX, a.clientY, b.clientX, b.clientY)
       if (!pinchSnapChosen) {
-        // Apart => zoom in (FOV_MIN). Together => zoom out (FOV_MAX).
-        targetFov = (d > pinchStartDist) ? FOV_MIN : FOV_MAX
+        // Apart => zoom in (fovMin). Together => zoom out (fovMax).
+        targetFov = (d > pinchStartDist) ? fovMin : fovMax
         pinchSnapChosen = true
       }
       return
@@ -475,65 +1272,189 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
       const t = e.touches[0]
       const dx = t.clientX - lastTouchX, dy = t.clientY - lastTouchY
       lastTouchX = t.clientX; lastTouchY = t.clientY
+      dragging = true
+      if (camTween) return
+      if (mode === 'dollhouse') { orbitBy(dx * ORBIT_SENS_TOUCH, dy * ORBIT_SENS_TOUCH); return }
       yaw.rotation.y -= dx * LOOK_SENS_TOUCH
       pitch.rotation.x -= dy * LOOK_SENS_TOUCH
       pitch.rotation.x = THREE.MathUtils.clamp(pitch.rotation.x, -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
-      dragging = true
     }
-  }, { passive: true })
+  }, { passive: true, signal })
 
   renderer.domElement.addEventListener('touchend', (e) => {
     if (renderer.xr.isPresenting) return
 
     if (e.touches.length < 2 && pinchActive) {
-      // Pinch released: revert back to baseline widest FOV ("lowest zoom")
-      targetFov = FOV_MAX
+      // Pinch released (snap): revert back to baseline widest FOV ("lowest zoom"); continuous keeps it
+      if (zoomMode === 'snap' && mode === 'firstPerson') targetFov = fovMax
       pinchActive = false
       pinchSnapChosen = false
     }
 
     const dtUp = performance.now() - downTime
     const isClick = !dragging && dtUp <= CLICK_MS
-    if (isClick && marker.visible) {
-      moveTo(aimPoint, true)
-      standLight.intensity = 1.6
-    }
+    const t = e.changedTouches[0]
+    if (isClick && t) clickAt(t.clientX, t.clientY)
     dragging = false
-  }, { passive: true })
+  }, { passive: true, signal })
 
-  // XR controllers: select to go
+  // XR controllers: straight ray for menus / hotspots; thumbstick forward shows the teleport arc, release to go.
+  // Inputs without a thumbstick (hands, gaze) aim the arc all the time and teleport on select.
   const tmpMat = new THREE.Matrix4()
+  const aimRaycaster = new THREE.Raycaster() // controller straight ray (updateAim scratch)
+  const vrCfg = {
+    turn: cfg.vr?.turn ?? 'snap',
+    snapAngle: THREE.MathUtils.degToRad(cfg.vr?.snapAngle ?? SNAP_TURN_DEG),
+    turnSpeed: THREE.MathUtils.degToRad(cfg.vr?.turnSpeed ?? SMOOTH_TURN_DEG),
+  }
+  const arcs: TeleportArc[] = []
+  const _arcDir = new THREE.Vector3(), _arcSeg = new THREE.Line3(), _arcHit = new THREE.Vector3()
+  const arcRaycaster = new THREE.Raycaster()
+
+  // first navmesh (or fallback floor) hit on one arc segment
+  function arcSegmentHit(from: THREE.Vector3, to: THREE.Vector3): THREE.Intersection | null {
+    if (navmeshGroup) {
+      const len = from.distanceTo(to)
+      arcRaycaster.set(from, _arcDir.subVectors(to, from).divideScalar(len || 1))
+      arcRaycaster.far = len
+      return firstUnclippedHit(arcRaycaster.intersectObjects(navmeshGroup.children, true)) ?? null
+    }
+    if (navFloor && _floorPlane.intersectLine(_arcSeg.set(from, to), _arcHit)) {
+      return { point: _arcHit.clone(), distance: from.distanceTo(_arcHit) } as THREE.Intersection
+    }
+    return null
+  }
+
+  const stickOf = (ctrl: THREE.Object3D) => {
+    const axes = (ctrl.userData.source as XRInputSource | undefined)?.gamepad?.axes
+    if (!axes || axes.length < 2) return null
+    const i = axes.length >= 4 ? 2 : 0 // xr-standard: touchpad 0/1, thumbstick 2/3
+    return { x: axes[i], y: axes[i + 1] }
+  }
+
+  // turn about the head, so the view rotates in place
+  const _head = new THREE.Vector3(), _up = new THREE.Vector3(0, 1, 0)
+  function turnRig(angle: number) {
+    renderer.xr.getCamera().getWorldPosition(_head)
+    rig.rotation.y += angle
+    const y = rig.position.y
+    rig.position.sub(_head).applyAxisAngle(_up, angle).add(_head)
+    rig.position.y = y
+  }
+
+  function teleportTo(hit: THREE.Intersection) {
+    moveTo(hit.point.clone(), false); standLight.intensity = 1.6
+    if (selectedHotspot) selectHotspot(null)
+  }
+
+  function updateXRSticks(ctrl: THREE.Object3D, dt: number) {
+    const ud = ctrl.userData
+    const st = stickOf(ctrl)
+    if (!st || ar.status.active) { ud.aiming = false; return }
+    const mag = Math.hypot(st.x, st.y)
+    if (mag > STICK_RELEASE) tour.stop()
+
+    if (!ud.aiming && st.y < -STICK_ENGAGE && Math.abs(st.x) < -st.y) ud.aiming = true
+    else if (ud.aiming && mag < STICK_RELEASE) {
+      ud.aiming = false
+      if (ud.teleportHit) teleportTo(ud.teleportHit)
+    }
+    if (ud.aiming) return
+
+    if (vrCfg.turn === 'snap') {
+      if (ud.snapReady !== false && Math.abs(st.x) > STICK_ENGAGE) { turnRig(-Math.sign(st.x) * vrCfg.snapAngle); ud.snapReady = false }
+      else if (Math.abs(st.x) < STICK_RELEASE) ud.snapReady = true
+    } else if (vrCfg.turn === 'smooth' && Math.abs(st.x) > STICK_RELEASE) {
+      turnRig(-Math.sign(st.x) * (Math.abs(st.x) - STICK_RELEASE) / (1 - STICK_RELEASE) * vrCfg.turnSpeed * dt)
+    }
+  }
+
   function addController(index: number) {
     const ctrl = renderer.xr.getController(index)
     rig.add(ctrl)
     const rayGeom = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0,0,0), new THREE.Vector3(0,0,-1)])
     const rayLine = new THREE.Line(rayGeom, new THREE.LineBasicMaterial()); rayLine.scale.z = 10
     ctrl.add(rayLine)
+    const arc = createTeleportArc()
+    arcs.push(arc)
+    scene.add(arc.object)
+    ctrl.addEventListener('connected', (e: any) => { ctrl.userData.source = e.data })
+    ctrl.addEventListener('disconnected', () => { ctrl.userData.source = null; ctrl.userData.aiming = false })
+
+    if (minimap && index === (cfg.minimap?.vrController ?? 0)) {
+      minimap.object.position.set(0, 0.1, -0.06)
+      minimap.object.rotation.x = -Math.PI / 4
+      ctrl.add(minimap.object)
+    }
 
-    const onSelect = () => { if (marker.visible) { moveTo(aimPoint, false); standLight.intensity = 1.6 } }
+    const onSelect = () => {
+      tour.stop()
+      if (ar.status.active) { ar.select(); return }
+      const item = (ctrl.userData as any).menuHit as VRMenuItem | null
+      if (item) { item.onSelect(); return }
+      const mapHit = (ctrl.userData as any).minimapHit as { x: number; z: number } | null
+      if (mapHit) { minimapTeleport(mapHit.x, mapHit.z); return }
+      if (measuring) {
+        const snap = (ctrl.userData as any).measureHit as ReturnType<typeof measureHit>
+        if (snap) measure.pick(snap.point)
+        return
+      }
+      const hs = (ctrl.userData as any).hotspotHit as string | null
+      if (hs) { selectHotspot(hs === selectedHotspot ? null : hs); return }
+      emitObjectClick(new THREE.Raycaster(_ray.origin.setFromMatrixPosition(ctrl.matrixWorld), _ray.direction.set(0, 0, -1).transformDirection(ctrl.matrixWorld)))
+      // thumbstick controllers teleport on stick release instead
+      if (!stickOf(ctrl) && ctrl.userData.teleportHit) teleportTo(ctrl.userData.teleportHit)
+    }
     ctrl.addEventListener('select', onSelect)
-    ctrl.addEventListener('selectstart', onSelect)
-
+    // pressed pointers feed the AR pinch (screen touches arrive as select, headset hands/controllers as either)
+    const press = (d: number) => () => { ctrl.userData.pressed = Math.max(0, (ctrl.userData.pressed ?? 0) + d) }
+    ctrl.addEventListener('selectstart', press(1)); ctrl.addEventListener('selectend', press(-1))
+    ctrl.addEventListener('squeezestart', press(1)); ctrl.addEventListener('squeezeend', press(-1))
+    ctrl.addEventListener('disconnected', () => { ctrl.userData.pressed = 0 })
+    ctrl.addEventListener('squeezestart', () => {
+      tour.stop()
+      const sh = ctrl.userData.sectionHit as string | null
+      if (sh && grabSection(ctrl, sh, controllerRay(ctrl))) return
+      if (!measuring && !ar.status.active) cycleFinishAt(new THREE.Raycaster(_ray.origin.setFromMatrixPosition(ctrl.matrixWorld), _ray.direction.set(0, 0, -1).transformDirection(ctrl.matrixWorld)))
+    })
+
+    ctrl.addEventListener('squeezeend', () => releaseSection(ctrl))
+    ctrl.addEventListener('disconnected', () => releaseSection(ctrl))
+
+    // sets userData.teleportHit (valid arc landing) and the menu / minimap / section handle / measure / hotspot hits
     ;(ctrl.userData as any).updateAim = () => {
+      const ud = ctrl.userData as any
+      ud.teleportHit = null
+      ud.menuHit = ud.minimapHit = ud.sectionHit = ud.measureHit = ud.hotspotHit = null
+      arc.object.visible = false
+      rayLine.visible = !ud.aiming
+      if (ar.status.active) return // AR: the placement reticle instead
       tmpMat.identity().extractRotation(ctrl.matrixWorld)
       _ray.origin.setFromMatrixPosition(ctrl.matrixWorld)
       _ray.direction.set(0, 0, -1).applyMatrix4(tmpMat).normalize()
 
-      if (navmeshGroup) {
-        const rc = new THREE.Raycaster(_ray.origin, _ray.direction)
-        const hit = rc.intersectObjects(navmeshGroup.children, true)[0]
-        updateMarkerFromHit(hit)
-        return
+      if (!ud.aiming) {
+        // menu buttons take priority over the floor
+        const menuRc = aimRaycaster
+        menuRc.set(_ray.origin, _ray.direction)
+        if ((ud.menuHit = wristMenu.intersect(menuRc))) return
+        if ((ud.minimapHit = minimap?.intersect(menuRc) ?? null)) return
+        if ((ud.sectionHit = sectioning.pick(menuRc))) return
+
+        // measure mode: model surface instead of the floor
+        menuRc.camera = renderer.xr.getCamera()
+        if (measuring) { ud.measureHit = measureHit(menuRc, null); return }
+
+        // then hotspots
+        if ((ud.hotspotHit = pickHotspot(menuRc))) return
+        if (stickOf(ctrl)) return // the arc only while the stick is pushed
       }
-      // fallback only when NO navmesh
-      if (navFloor) {
-        const hitPoint = new THREE.Vector3()
-        if (_ray.intersectPlane(_floorPlane, hitPoint)) {
-          updateMarkerFromHit({ point: hitPoint } as unknown as THREE.Intersection)
-          return
-        }
-      }
-      updateMarkerFromHit(undefined)
+
+      if (!navmeshGroup && !navFloor) return
+      const hit = arc.cast(_ray.origin, _ray.direction, arcSegmentHit)
+      const valid = !!hit && (!hit.face || hit.face.normal.y > 0.5) // walls of the navmesh are not floor
+      arc.setValid(valid)
+      ud.teleportHit = valid ? hit : null
     }
   }
   addController(0); addController(1)
@@ -545,9 +1466,11 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     renderer.setSize(w, h)
     camera.aspect = w / h
     camera.updateProjectionMatrix()
+    dollCam.aspect = w / h
+    dollCam.updateProjectionMatrix()
     stickNavFloorToMinY()
   }
-  window.addEventListener('resize', doResize)
+  window.addEventListener('resize', doResize, { signal })
 
   // helpers
   function updateMarkerFromHit(hit?: THREE.Intersection) {
@@ -570,15 +1493,468 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   }
   
 
+  // rig position projected onto the walkable floor (start point for pathfinding)
+  function rigFloorPos(out: THREE.Vector3) {
+    const y = navmeshGroup ? rig.position.y : (navFloor ? _floorPosWS.y : 0)
+    return out.set(rig.position.x, y, rig.position.z)
+  }
+
+  function updateCurrentLevel() {
+    const id = navmeshGroup ? (levelForHeight(levels, rig.position.y / currentScale)?.id ?? null) : null
+    if (id === currentLevel) return
+    currentLevel = id
+    refreshWristMenu()
+    refreshMinimapFloor()
+    if (mode === 'dollhouse') updateDollhouseCut()
+    cfg.onLevelChange?.(id)
+    events.emit('levelchange', { id, level: levels.find((l) => l.id === id) ?? null })
+  }
+
+  // Arrival pose for a level: `<id>_Spawn` empty in the model, else the floor's navmesh centroid.
+  function levelArrival(id: string): { pos: THREE.Vector3; yaw: number | null } | null {
+    const conf = cfg.levels?.find((l) => l.id === id)
+    if (conf?.spawn) {
+      const pos = modelToWorld(conf.spawn)
+      pos.y = navHeightAt(pos.x, pos.z, pos.y) ?? pos.y
+      return { pos, yaw: conf.yaw !== undefined ? THREE.MathUtils.degToRad(conf.yaw) : null }
+    }
+    const spawn = model?.getObjectByName(`${id}_Spawn`)
+    if (spawn) {
+      const pos = spawn.getWorldPosition(new THREE.Vector3())
+      const fwd = new THREE.Vector3(0, 0, -1).applyQuaternion(spawn.getWorldQuaternion(new THREE.Quaternion()))
+      pos.y = navHeightAt(pos.x, pos.z, pos.y) ?? pos.y
+      return { pos, yaw: Math.atan2(-fwd.x, -fwd.z) }
+    }
+    const c = levelArrivals.get(id)
+    return c ? { pos: c.clone().multiplyScalar(currentScale), yaw: null } : null
+  }
+
+  function goToLevel(id: string) {
+    const arrival = levelArrival(id)
+    if (!arrival) { console.warn(`[viewer] unknown level "${id}"`); return }
+    tour.stop()
+    // in dollhouse the rig isn't what you look through: just re-select the floor
+    const run = mode === 'dollhouse' ? (f: () => void) => f() : fadeTeleport
+    events.emit('teleportstart', { from: toTuple(worldToModel(rig.position)), to: toTuple(worldToModel(arrival.pos)), smooth: false })
+    run(() => {
+      moveTarget = null; movePath = []
+      hidePathPreview()
+      rig.position.copy(arrival.pos)
+      events.emit('teleportend', { position: toTuple(worldToModel(rig.position)) })
+      if (arrival.yaw !== null) { yaw.rotation.y = arrival.yaw; pitch.rotation.x = 0 }
+      standLight.intensity = 1.6
+      updateCurrentLevel()
+    })
+  }
+
+  // --- fade to black (sphere around the camera, so it also covers the view in XR)
+  const fadeMat = new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0, side: THREE.BackSide, depthTest: false, depthWrite: false })
+  const fadeMesh = new THREE.Mesh(new THREE.SphereGeometry(0.3, 16, 12), fadeMat)
+  fadeMesh.renderOrder = 1002
+  fadeMesh.visible = false
+  camera.add(fadeMesh)
+  let fade: { dir: 1 | -1; action: (() => void) | null } | null = null
+
+  // --- comfort vignette: narrows the view while the rig glides or turns smoothly in XR (not on teleports / snaps)
+  const vignette = createVignette(THREE.MathUtils.clamp(cfg.vr?.vignette ?? VIGNETTE_STRENGTH, 0, 1))
+  camera.add(vignette.object)
+  const comfortLast = { pos: new THREE.Vector3(), yaw: 0 }
+  function updateVignette(dt: number) {
+    let motion = 0
+    if (renderer.xr.isPresenting && !ar.status.active && dt > 0) {
+      const moved = comfortLast.pos.distanceTo(rig.position)
+      const turned = Math.abs(rig.rotation.y - comfortLast.yaw)
+      if (moved < COMFORT_JUMP && turned < THREE.MathUtils.degToRad(10)) {
+        motion = Math.max(moved / dt, turned / dt) / COMFORT_SPEED
+      }
+    }
+    comfortLast.pos.copy(rig.position); comfortLast.yaw = rig.rotation.y
+    vignette.update(motion, dt)
+  }
+
+  // fade out, run `action` while black, fade back in (a newer request replaces a pending action)
+  function fadeTeleport(action: () => void) {
+    fade = { dir: 1, action }
+  }
+
+  function updateFade(dt: number) {
+    if (!fade) return
+    fadeMat.opacity = THREE.MathUtils.clamp(fadeMat.opacity + fade.dir * dt / FADE_SEC, 0, 1)
+    if (fade.dir === 1 && fadeMat.opacity >= 1) {
+      fade.action?.()
+      fade = { dir: -1, action: null }
+    } else if (fade.dir === -1 && fadeMat.opacity <= 0) {
+      fade = null
+    }
+    fadeMesh.visible = fadeMat.opacity > 0
+  }
+
+  // --- in-VR wrist menu (held above controller 1): the overlay's controls, folded behind a Menu button.
+  // Ray + trigger, or ray + pinch with hand tracking (both arrive as 'select').
+  const wristMenu = createVRMenu()
+  wristMenu.object.position.set(0, 0.1, -0.08)
+  wristMenu.object.rotation.x = -Math.PI / 4
+  renderer.xr.getController(1).add(wristMenu.object) // the controllers are set up above, before the menu exists
+  let wristMenuOpen = false
+  function refreshWristMenu() {
+    // every press rebuilds the menu so labels / values follow the viewer
+    const item = (id: string, label: string, onSelect: () => void, extra?: Partial<VRMenuItem>): VRMenuItem =>
+      ({ id, label, ...extra, onSelect: () => { onSelect(); refreshWristMenu() } })
+    const stepper = (id: string, label: string, step: (dir: -1 | 1) => void): VRMenuItem[] => [
+      item(`${id}-down`, '−', () => step(-1)),
+      item(id, label, () => {}, { disabled: true, width: 2.6 }),
+      item(`${id}-up`, '+', () => step(1)),
+    ]
+    const rows: VRMenuRow[] = levels.length > 1
+      ? [...levels].reverse().map((l) => item(l.id, l.name, () => goToLevel(l.id), { active: l.id === currentLevel }))
+      : []
+    rows.push(item('measure', 'Measure', () => setMeasureMode(!measuring), { active: measuring }))
+    if (measuring && measure.list.length) rows.push(item('measure-clear', 'Clear measures', () => measure.clear()))
+    if (!wristMenuOpen) {
+      rows.push(item('menu', '☰ Menu', () => { wristMenuOpen = true }))
+      wristMenu.setItems(rows)
+      return
+    }
+    rows.push(item('background', 'Background', () => lighting.setBackground(!lighting.backgroundOn), { active: lighting.backgroundOn }))
+    if (lighting.presets.length > 1) {
+      const i = lighting.presets.findIndex((p) => p.id === lighting.current)
+      const p = lighting.presets[i] ?? lighting.presets[0]
+      rows.push(item('environment', `Light: ${p.label ?? p.id}`, () => { void lighting.set(lighting.presets[(i + 1) % lighting.presets.length]) }))
+    }
+    rows.push(stepper('scale', `Scale ${currentScale.toFixed(2)}`, (dir) =>
+      setModelScale(THREE.MathUtils.clamp(currentScale * (dir > 0 ? VR_SCALE_STEP : 1 / VR_SCALE_STEP), MODEL_SCALE_MIN, MODEL_SCALE_MAX))))
+    rows.push(stepper('eye', `Eye ${eyeHeight.toFixed(2)} m`, (dir) => setEyeHeight(eyeHeight + dir * VR_EYE_STEP)))
+    rows.push(item('turn', `Turn: ${vrCfg.turn}`, () => { vrCfg.turn = vrCfg.turn === 'snap' ? 'smooth' : vrCfg.turn === 'smooth' ? 'off' : 'snap' }))
+    rows.push(item('section', `Section: ${sectionLabel()}`, cycleSection))
+    rows.push(item('reset', 'Reset view', resetView))
+    rows.push(item('close', '✕ Close', () => { wristMenuOpen = false }))
+    wristMenu.setItems(rows)
+  }
+  renderer.xr.addEventListener('sessionstart', () => { wristMenuOpen = false; refreshWristMenu() })
+
+  // --- dollhouse: separate orbit camera; tweens to/from the first-person camera pose
+  let mode: ViewerMode = 'firstPerson'
+  const dollCam = new THREE.PerspectiveCamera(DOLLHOUSE_FOV, camera.aspect, 0.01, 2000)
+  const orbit = { target: new THREE.Vector3(), dist: 10, minDist: 1, maxDist: 100, azimuth: 0, polar: THREE.MathUtils.degToRad(55) }
+  const dollCut = new THREE.Plane(new THREE.Vector3(0, -1, 0), 0) // keeps y <= constant
+  let dollCutOn = false
+  type CamPose = { pos: THREE.Vector3; quat: THREE.Quaternion; fov: number }
+  let camTween: { from: CamPose; to: CamPose; t: number; done: () => void } | null = null
+  const _lookM = new THREE.Matrix4()
+
+  function firstPersonPose(): CamPose {
+    camera.updateWorldMatrix(true, false)
+    return { pos: camera.getWorldPosition(new THREE.Vector3()), quat: camera.getWorldQuaternion(new THREE.Quaternion()), fov: camera.fov }
+  }
+  function orbitPose(): CamPose {
+    const pos = new THREE.Vector3().setFromSphericalCoords(orbit.dist, orbit.polar, orbit.azimuth).add(orbit.target)
+    const quat = new THREE.Quaternion().setFromRotationMatrix(_lookM.lookAt(pos, orbit.target, THREE.Object3D.DEFAULT_UP))
+    return { pos, quat, fov: DOLLHOUSE_FOV }
+  }
+  function applyPose(p: CamPose) {
+    dollCam.position.copy(p.pos); dollCam.quaternion.copy(p.quat)
+    if (dollCam.fov !== p.fov) { dollCam.fov = p.fov; dollCam.updateProjectionMatrix() }
+  }
+
+  // model bounds (world space), ignoring the oversized fallback floor
+  function modelBox() {
+    world.updateMatrixWorld(true)
+    return new THREE.Box3().setFromObject(model ?? world)
+  }
+
+  // hide everything above the selected floor (navmesh level, else the model's lowest floor)
+  function updateDollhouseCut() {
+    const box = modelBox()
+    const lvl = levels.find((l) => l.id === currentLevel)
+    const floorY = lvl ? lvl.elevation * currentScale : (isFinite(box.min.y) ? box.min.y : 0)
+    const next = lvl ? levels[lvl.index + 1] : undefined
+    let cut = floorY + Math.min(DOLLHOUSE_CUT_HEIGHT * currentScale, isFinite(box.max.y) ? (box.max.y - floorY) * 0.85 : Infinity)
+    if (next) cut = Math.min(cut, next.elevation * currentScale - 0.05 * currentScale)
+    dollCut.constant = cut
+  }
+
+  function frameDollhouse() {
+    const box = modelBox()
+    if (box.isEmpty()) { orbit.target.set(0, 0, 0); orbit.dist = 10 }
+    else {
+      const sphere = box.getBoundingSphere(new THREE.Sphere())
+      orbit.target.copy(sphere.center)
+      orbit.target.y = (box.min.y + Math.min(box.max.y, dollCut.constant)) / 2
+      orbit.dist = sphere.radius / Math.sin(THREE.MathUtils.degToRad(DOLLHOUSE_FOV / 2))
+    }
+    orbit.minDist = orbit.dist * 0.2
+    orbit.maxDist = orbit.dist * 3
+    orbit.azimuth = yaw.rotation.y // start behind the current view direction
+  }
+
+  function setModeInternal(next: ViewerMode) {
+    if (next === mode && !camTween) return
+    if (next === 'dollhouse' && renderer.xr.isPresenting) { console.warn('[viewer] dollhouse is not available in XR'); return }
+    moveTarget = null; movePath = []
+    hidePathPreview()
+    if (next === 'dollhouse') {
+      tour.stop()
+      updateDollhouseCut()
+      frameDollhouse()
+      dollCutOn = true
+      syncClipping()
+      camTween = { from: camTween ? currentPose() : firstPersonPose(), to: orbitPose(), t: 0, done: () => {} }
+    } else {
+      camTween = { from: currentPose(), to: firstPersonPose(), t: 0, done: () => { dollCutOn = false; syncClipping() } }
+    }
+    mode = next
+    cfg.onModeChange?.(mode)
+  }
+  function currentPose(): CamPose {
+    return { pos: dollCam.position.clone(), quat: dollCam.quaternion.clone(), fov: dollCam.fov }
+  }
+
+  // dollhouse click: drop into first person at `point`, facing the way the overview camera looked
+  function flyDownTo(point: THREE.Vector3) {
+    moveTo(point, false)
+    yaw.rotation.y = orbit.azimuth
+    pitch.rotation.x = 0
+    updateCurrentLevel()
+    setModeInternal('firstPerson')
+  }
+
+  function updateDollhouse(dt: number) {
+    if (camTween) {
+      camTween.t = reducedMotion ? 1 : Math.min(1, camTween.t + dt / DOLLHOUSE_TWEEN_SEC)
+      const k = camTween.t < 0.5 ? 4 * camTween.t ** 3 : 1 - (-2 * camTween.t + 2) ** 3 / 2 // easeInOutCubic
+      const { from, to } = camTween
+      applyPose({ pos: from.pos.clone().lerp(to.pos, k), quat: from.quat.clone().slerp(to.quat, k), fov: THREE.MathUtils.lerp(from.fov, to.fov, k) })
+      if (camTween.t >= 1) { const done = camTween.done; camTween = null; done() }
+    } else if (mode === 'dollhouse') {
+      applyPose(orbitPose())
+    }
+  }
+
+  // --- section planes / clipping box: cut through the model (in its file frame), capped cut faces;
+  // handles drag a plane or box face (desktop mouse, XR grip while pointing at one).
+  // The root tracks world × model alignment but sits outside `world`, so caps don't count towards its bounds.
+  const sectionRoot = new THREE.Group(); sectionRoot.name = 'Sections'
+  sectionRoot.matrixAutoUpdate = false
+  syncSectionRoot()
+  scene.add(sectionRoot)
+  const sectioning = createSectioning({
+    root: sectionRoot,
+    model,
+    bounds: modelBounds.clone().applyMatrix4(_modelInv.copy(_modelAppliedXform).invert()),
+    onChange: (st) => {
+      syncClipping()
+      refreshWristMenu()
+      events.emit('sectionchange', st)
+    },
+  }, cfg.section)
+  let sectionGrab: 'mouse' | THREE.Object3D | null = null // whoever holds a handle
+  let hoveredSection: string | null = null
+  const sectionRc = new THREE.Raycaster()
+  const _sectionNDC = new THREE.Vector2()
+
+  function syncSectionRoot() {
+    world.updateMatrix()
+    sectionRoot.matrix.multiplyMatrices(world.matrix, _modelAppliedXform)
+  }
+
+  // the dollhouse cut and the sections clip together (the renderer keeps the intersection)
+  function syncClipping() {
+    renderer.clippingPlanes = dollCutOn ? [dollCut, ...sectioning.planes] : [...sectioning.planes]
+  }
+
+  function sectionRayAt(clientX: number, clientY: number) {
+    sectionRc.setFromCamera(toNDC(clientX, clientY, _sectionNDC), (mode === 'dollhouse' || camTween) ? dollCam : camera)
+    return sectionRc
+  }
+
+  function controllerRay(ctrl: THREE.Object3D) {
+    return new THREE.Ray(new THREE.Vector3().setFromMatrixPosition(ctrl.matrixWorld), new THREE.Vector3(0, 0, -1).transformDirection(ctrl.matrixWorld))
+  }
+
+  function grabSection(by: 'mouse' | THREE.Object3D, handle: string, ray: THREE.Ray) {
+    if (!sectioning.grab(handle, ray)) return false
+    tour.stop()
+    sectionGrab = by
+    return true
+  }
+  function releaseSection(by: 'mouse' | THREE.Object3D) {
+    if (sectionGrab !== by) return
+    sectionGrab = null
+    sectioning.release()
+  }
+
+  // wrist menu: off -> horizontal cut through the middle -> clipping box -> off
+  const sectionLabel = () => { const st = sectioning.status; return st.box ? 'box' : st.planes.length ? 'plane' : 'off' }
+  function cycleSection() {
+    const st = sectioning.status
+    if (!st.box && !st.planes.length) sectioning.addPlane('y')
+    else if (!st.box) { sectioning.clear(); sectioning.setBox(true) }
+    else sectioning.clear()
+  }
+
+  // first visible hit: ignores surfaces removed by the active clipping planes
+  function firstUnclippedHit(hits: THREE.Intersection[]) {
+    const planes = renderer.clippingPlanes
+    return hits.find((h) => planes.every((p) => p.distanceToPoint(h.point) >= 0))
+  }
+
+  const isARSession = () => {
+    const blend = renderer.xr.getSession()?.environmentBlendMode
+    return !!blend && blend !== 'opaque'
+  }
+  renderer.xr.addEventListener('sessionstart', () => {
+    events.emit('xrsessionstart', { mode: isARSession() ? 'ar' : 'vr' })
+  })
+  renderer.xr.addEventListener('sessionend', () => events.emit('xrsessionend', {}))
+
+  // --- AR placement: hit-test reticle, tap places the world (hidden until then), pinch scales/rotates
+  const _arRay = new THREE.Ray()
+  const ar = createARPlacement({
+    world,
+    followers: () => (navmeshGroup ? [navmeshGroup] : []),
+    frame: rig,
+    viewRay: () => {
+      const xrCam = renderer.xr.getCamera()
+      xrCam.getWorldPosition(_arRay.origin); xrCam.getWorldDirection(_arRay.direction)
+      return _arRay
+    },
+    getScale: () => currentScale,
+    setScale: (k) => setModelScale(k),
+    // 1:1 = undo the load-time auto-fit (and convert file units to metres)
+    lifeSizeScale: () => (cfg.measure?.metersPerUnit ?? 1) / new THREE.Vector3().setFromMatrixScale(_modelAppliedXform).x,
+    anchor: (m) => {
+      if (m === 'tabletop') return new THREE.Vector3(...modelBounds.getCenter(new THREE.Vector3()).toArray()).setY(modelBounds.min.y)
+      // life-size: the spawn point, standing on the lowest floor
+      const p = cfg.spawn?.position ? new THREE.Vector3(...cfg.spawn.position).applyMatrix4(_modelAppliedXform) : new THREE.Vector3()
+      return p.setY(navmeshMinY ?? modelBounds.min.y)
+    },
+    onChange: (st) => {
+      syncARButtons(st)
+      events.emit('arplacement', st)
+    },
+    onError: (e) => events.emit('error', { source: 'xr', error: e }),
+  })
+  let arButtons: { mode: HTMLButtonElement; reset: HTMLButtonElement } | null = null // AR overlay, built with the FOV buttons
+  function syncARButtons(st: ARPlacementStatus) {
+    if (!arButtons) return
+    arButtons.mode.textContent = st.mode === 'lifeSize' ? 'Tabletop' : 'Life-size'
+    arButtons.reset.style.display = st.placed ? '' : 'none'
+  }
+  if (cfg.arMode) ar.setMode(cfg.arMode)
+  scene.add(ar.reticle)
+
+  const arPoseSaved = { yaw: 0, pitch: 0, eye: 0 }
+  renderer.xr.addEventListener('sessionstart', () => {
+    const session = renderer.xr.getSession()
+    if (!session || !isARSession()) return
+    // AR content must line up with the real world: camera, controllers and hit poses all in the rig's frame
+    arPoseSaved.yaw = yaw.rotation.y; arPoseSaved.pitch = pitch.rotation.x; arPoseSaved.eye = pitch.position.y
+    yaw.rotation.y = 0; pitch.rotation.x = 0; pitch.position.y = 0
+    moveTarget = null; movePath = []
+    void ar.start(session)
+  })
+  renderer.xr.addEventListener('sessionend', () => {
+    // thumbstick turns rotate the rig (controllers are its children); hand them back to the desktop yaw
+    yaw.rotation.y += rig.rotation.y; rig.rotation.y = 0
+    if (!ar.status.active) return
+    ar.end()
+    yaw.rotation.y = arPoseSaved.yaw; pitch.rotation.x = arPoseSaved.pitch; pitch.position.y = arPoseSaved.eye
+  })
+
+  renderer.xr.addEventListener('sessionstart', () => {
+    if (mode === 'firstPerson' && !camTween) return
+    camTween = null
+    dollCutOn = false
+    syncClipping()
+    mode = 'firstPerson'
+    cfg.onModeChange?.(mode)
+  })
+
+  // model file coordinates -> world (model alignment + world scale, and the AR placement if any)
+  function modelToWorld(p: Vec3Tuple) {
+    world.updateMatrix()
+    return new THREE.Vector3(...p).applyMatrix4(_modelAppliedXform).applyMatrix4(world.matrix)
+  }
+  const _worldToModelM = new THREE.Matrix4()
+  function worldToModel(w: THREE.Vector3) {
+    world.updateMatrix()
+    return w.clone().applyMatrix4(_worldToModelM.multiplyMatrices(world.matrix, _modelAppliedXform).invert())
+  }
+  const toTuple = (v: THREE.Vector3) => v.toArray() as Vec3Tuple
+
+  // start pose: cfg.spawn, else in front of the origin; standing on the navmesh below
+  function spawnPoint() {
+    const pos = cfg.spawn?.position ? modelToWorld(cfg.spawn.position) : new THREE.Vector3(0, 0, 2.5)
+    pos.y = navmeshGroup ? (navHeightAt(pos.x, pos.z, pos.y) ?? pos.y) : 0
+    return pos
+  }
+  function placeAtSpawn() {
+    rig.position.copy(spawnPoint())
+    rig.rotation.y = 0 // VR thumbstick turns
+    yaw.rotation.set(0, THREE.MathUtils.degToRad(cfg.spawn?.yaw ?? 0), 0); pitch.rotation.set(0, 0, 0)
+    updateCurrentLevel()
+  }
+  placeAtSpawn()
+
+  // --- guided tour: drives rig / yaw / pitch / targetFov; any user input stops it
+  const tour = createTourPlayer({
+    rig, yaw, pitch,
+    getFov: () => targetFov,
+    setFov: (deg) => zoomTo(deg, null),
+    toWorld: (p) => {
+      const pos = modelToWorld(p)
+      pos.y = navmeshGroup ? (navHeightAt(pos.x, pos.z, pos.y) ?? pos.y) : 0
+      return pos
+    },
+    isXR: () => renderer.xr.isPresenting || reducedMotion, // fade between stops instead of moving the camera
+    route: (from, to) => (pathfinder ? findNavPath(from, to) : [to.clone()]),
+    levelAt: (p) => (navmeshGroup ? (levelForHeight(levels, p.y / currentScale)?.id ?? null) : null),
+    floorHeight: navHeightAt,
+    fadeTeleport: (action) => fadeTeleport(() => { action(); updateCurrentLevel() }),
+    onArrive: () => { standLight.intensity = 1.6; updateCurrentLevel() },
+    onChange: (s) => cfg.onTourChange?.(s),
+  })
+
+  function playTour(t: Tour | undefined = cfg.tour) {
+    if (!t) { console.warn('[viewer] no tour to play'); return }
+    moveTarget = null; movePath = []
+    hidePathPreview()
+    if (mode !== 'firstPerson') setModeInternal('firstPerson')
+    tour.play(t)
+  }
+
+  // smooth moves end on arrival, when blocked or when the user takes over (see the loop)
+  let walking = false
+  function endWalk() {
+    if (!walking) return
+    walking = false
+    events.emit('teleportend', { position: toTuple(worldToModel(rig.position)) })
+  }
+
   function moveTo(target: THREE.Vector3, smooth: boolean) {
     const dest = target.clone()
-    // ⬇️ still clamp to lowest Y on the navmesh
-    const y = navmeshGroup ? (navmeshMinY ?? target.y) : (navFloor ? _floorPosWS.y : 0)
-    dest.y = y
-  
-    if (!smooth || renderer.xr.isPresenting) {
-      rig.position.set(dest.x, 0, dest.z)
+    // ⬇️ stand on the navmesh polygon that was hit (any floor); fallback floor keeps the rig at 0
+    dest.y = navmeshGroup ? target.y : 0
+    movePath = []
+    hidePathPreview()
+
+    const route = (smooth && !reducedMotion && pathfinder) ? findNavPath(rigFloorPos(new THREE.Vector3()), target) : null
+    const instant = !smooth || reducedMotion || renderer.xr.isPresenting || (pathfinder && !route)
+    endWalk()
+    events.emit('teleportstart', { from: toTuple(worldToModel(rig.position)), to: toTuple(worldToModel(dest)), smooth: !instant })
+    if (instant) {
+      // instant jump (XR, reduced motion, or target on a navmesh island we can't walk to)
+      rig.position.copy(dest)
       moveTarget = null
+      updateCurrentLevel()
+      events.emit('teleportend', { position: toTuple(worldToModel(rig.position)) })
+      return
+    }
+    walking = true
+    moveBlocked = 0
+    if (route) {
+      movePath = route.map((p) => (navmeshGroup ? p.clone() : new THREE.Vector3(p.x, 0, p.z)))
+      moveTarget = movePath.shift() ?? null
     } else {
       moveTarget = dest
     }
@@ -614,7 +1990,123 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   const btn18 = mkBtn('18°')
   const btn35 = mkBtn('35°')
   ui.append(btn18, btn35)
-  safeAppend(document.body, ui)
+  if (cfg.showFovButtons ?? true) safeAppend(document.body, ui)
+
+  // AR overlay: placement mode, re-place, exit (ARButton shows the root while the session runs)
+  {
+    const bar = document.createElement('div')
+    Object.assign(bar.style, { position: 'fixed', top: '12px', right: '12px', display: 'flex', gap: '8px' } as Partial<CSSStyleDeclaration>)
+    const mode = mkBtn('Life-size'), reset = mkBtn('Re-place'), exit = mkBtn('Exit AR')
+    mode.onclick = () => ar.setMode(ar.status.mode === 'lifeSize' ? 'tabletop' : 'lifeSize')
+    reset.onclick = () => ar.reset()
+    exit.onclick = () => { renderer.xr.getSession()?.end().catch(() => {}) }
+    bar.append(mode, reset, exit)
+    arOverlay.append(bar)
+    arButtons = { mode, reset }
+    syncARButtons(ar.status)
+  }
+
+  // --- keyboard places: toolbar with the start point, levels and hotspots (Tab in, arrows between items, Enter goes).
+  // Out of sight until it has focus; the focused place previews its destination with the reticle and route.
+  let placeFocus: THREE.Vector3 | null = null
+  type Place = { label: string; target: () => THREE.Vector3 | null; go: () => void }
+
+  // floor point a step back from a hotspot, on the side we come from
+  function hotspotStand(id: string) {
+    const e = hotspots.get(id)
+    if (!e) return null
+    const p = e.sprite.getWorldPosition(new THREE.Vector3())
+    const away = rigFloorPos(new THREE.Vector3()).sub(p).setY(0)
+    if (away.lengthSq() < 1e-6) away.set(0, 0, 1)
+    away.normalize()
+    for (const d of [HOTSPOT_STAND_DIST, HOTSPOT_STAND_DIST / 2, 0]) {
+      const x = p.x + away.x * d, z = p.z + away.z * d
+      if (!navmeshGroup) return new THREE.Vector3(x, 0, z)
+      const y = navHeightAt(x, z, p.y)
+      if (y !== null) return new THREE.Vector3(x, y, z)
+    }
+    return null
+  }
+
+  // walk up to a hotspot, face it and open it
+  function visitHotspot(id: string) {
+    const e = hotspots.get(id)
+    if (!e) return
+    if (mode !== 'firstPerson') setModeInternal('firstPerson')
+    tour.stop()
+    const stand = hotspotStand(id)
+    if (stand) {
+      moveTo(stand, true)
+      const p = e.sprite.getWorldPosition(new THREE.Vector3())
+      yaw.rotation.y = Math.atan2(stand.x - p.x, stand.z - p.z)
+      pitch.rotation.x = THREE.MathUtils.clamp(Math.atan2(p.y - stand.y - eyeHeight, Math.hypot(p.x - stand.x, p.z - stand.z)), -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
+    }
+    selectHotspot(id)
+  }
+
+  function placeList(): Place[] {
+    const list: Place[] = [{ label: 'Start', target: spawnPoint, go: resetView }]
+    if (levels.length > 1) {
+      for (const l of [...levels].reverse()) list.push({ label: l.name, target: () => levelArrival(l.id)?.pos ?? null, go: () => goToLevel(l.id) })
+    }
+    for (const e of hotspots.values()) list.push({ label: e.data.title, target: () => hotspotStand(e.data.id), go: () => visitHotspot(e.data.id) })
+    return list
+  }
+
+  function refreshPlaces() {
+    if (!placesBar) return
+    const focused = placesBar.contains(document.activeElement) ? (document.activeElement as HTMLElement).dataset.place : undefined
+    const buttons = placeList().map((pl, i) => {
+      const b = mkBtn(pl.label)
+      b.dataset.place = pl.label
+      b.setAttribute('aria-label', `Go to ${pl.label}`)
+      b.tabIndex = -1
+      b.onclick = () => { placeFocus = null; pl.go() }
+      b.onfocus = () => {
+        placesBar?.querySelectorAll('button').forEach((o) => { o.tabIndex = o === b ? 0 : -1 }) // roving tab stop
+        placeFocus = mode === 'firstPerson' ? pl.target() : null
+      }
+      if (i === 0) b.tabIndex = 0
+      return b
+    })
+    placesBar.replaceChildren(...buttons)
+    buttons.find((b) => b.dataset.place === focused)?.focus()
+  }
+
+  {
+    const bar = document.createElement('div')
+    bar.setAttribute('role', 'toolbar')
+    bar.setAttribute('aria-label', 'Places')
+    Object.assign(bar.style, {
+      position: 'fixed', left: '12px', bottom: '12px', zIndex: '1000',
+      display: 'flex', flexWrap: 'wrap', gap: '6px', maxWidth: 'min(560px, calc(100% - 24px))',
+    } as Partial<CSSStyleDeclaration>)
+    const show = (on: boolean) => Object.assign(bar.style, { clipPath: on ? 'none' : 'inset(50%)', opacity: on ? '1' : '0' })
+    show(false)
+    bar.addEventListener('focusin', () => show(true), { signal })
+    bar.addEventListener('focusout', (e) => {
+      if (bar.contains(e.relatedTarget as Node | null)) return
+      show(false)
+      placeFocus = null
+    }, { signal })
+    bar.addEventListener('keydown', (e) => {
+      const items = [...bar.querySelectorAll('button')]
+      const i = items.indexOf(document.activeElement as HTMLButtonElement)
+      const n = items.length
+      const next =
+        e.key === 'ArrowRight' || e.key === 'ArrowDown' ? (i + 1) % n
+        : e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? (i - 1 + n) % n
+        : e.key === 'Home' ? 0
+        : e.key === 'End' ? n - 1
+        : -1
+      if (next < 0 || n === 0) return
+      e.preventDefault()
+      items[next].focus()
+    }, { signal })
+    placesBar = bar
+    refreshPlaces()
+    if (cfg.showPlaces ?? true) safeAppend(document.body, bar)
+  }
 
   function updateBtnStates() {
     const setActive = (btn: HTMLButtonElement, on: boolean) => {
@@ -630,7 +2122,8 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   function setFovPresetInternal(deg: number | null) {
     if (deg === 18) { activePreset = 18 as const; targetFov = FOV_MIN }
     else if (deg === 35) { activePreset = 35 as const; targetFov = FOV_MID }
-    else { activePreset = null; targetFov = FOV_MAX }
+    else { activePreset = null; targetFov = fovMax }
+    zoomAnchor = null // presets zoom about the view centre
     updateBtnStates()
   }
 
@@ -643,15 +2136,42 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
   updateBtnStates()
 
   // --- animation loop
+  let lastTargetFov = targetFov
+  const _lastAim = new THREE.Vector3()
+  let lastAimVisible = false
   renderer.setAnimationLoop(() => {
     const dt = Math.min(0.05, clock.getDelta())
 
+    updateDollhouse(dt)
+    syncSectionRoot(); sectioning.update()
+    const viewCam = (mode === 'dollhouse' || camTween) ? dollCam : camera
+
     // aim reticle (desktop) — NAVMESH FIRST (no plane if navmesh exists)
-    if (!renderer.xr.isPresenting) {
-      raycaster.setFromCamera(_mouseNDC, camera)
+    if (camTween) {
+      updateMarkerFromHit(undefined)
+    } else if (placeFocus && !renderer.xr.isPresenting) {
+      updateMarkerFromHit({ point: placeFocus } as unknown as THREE.Intersection) // keyboard places preview
+    } else if (!renderer.xr.isPresenting) {
+      raycaster.setFromCamera(_mouseNDC, viewCam)
+
+      // section handles (drawn on top) win over hotspots, hotspots over the teleport reticle
+      const sectionHandle = sectionGrab ? null : sectioning.pick(raycaster)
+      if (!sectionGrab) sectioning.hover(sectionHandle)
+      const hovered = measuring || sectionHandle ? null : pickHotspot(raycaster)
+      if (hovered !== hoveredHotspot || sectionHandle !== hoveredSection) {
+        hoveredHotspot = hovered; hoveredSection = sectionHandle
+        if (!isDragging && !sectionGrab) renderer.domElement.style.cursor = sectionHandle ? 'move' : hovered ? 'pointer' : idleCursor()
+      }
 
-      if (navmeshGroup) {
-        const hit = raycaster.intersectObjects(navmeshGroup.children, true)[0]
+      if (sectionHandle || sectionGrab) {
+        updateMarkerFromHit(undefined)
+      } else if (measuring) {
+        measure.hover(measureHit(raycaster, viewCam))
+        updateMarkerFromHit(undefined)
+      } else if (hoveredHotspot) {
+        updateMarkerFromHit(undefined)
+      } else if (navmeshGroup) {
+        const hit = firstUnclippedHit(raycaster.intersectObjects(navmeshGroup.children, true))
         updateMarkerFromHit(hit)
       } else if (navFloor) {
         _ray.origin.copy(raycaster.ray.origin)
@@ -667,35 +2187,91 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
       }
     } else {
       const c0 = renderer.xr.getController(0), c1 = renderer.xr.getController(1)
+      updateXRSticks(c0, dt); updateXRSticks(c1, dt)
       ;(c0 as any)?.userData?.updateAim?.()
       ;(c1 as any)?.userData?.updateAim?.()
+      updateMarkerFromHit(c0.userData.teleportHit ?? c1.userData.teleportHit ?? undefined)
+      wristMenu.setHovered((c0.userData as any).menuHit ?? (c1.userData as any).menuHit ?? null)
+      for (const c of [c0, c1]) if (sectionGrab === c) sectioning.drag(controllerRay(c))
+      if (!sectionGrab) sectioning.hover(c0.userData.sectionHit ?? c1.userData.sectionHit ?? null)
+      if (measuring) measure.hover((c0.userData as any).measureHit ?? (c1.userData as any).measureHit ?? null)
+      if (ar.status.active) {
+        ar.update(renderer.xr.getFrame(), renderer.xr.getReferenceSpace())
+        ar.pointers([c0, c1].filter((c) => c.userData.pressed > 0).map((c) => c.getWorldPosition(new THREE.Vector3())))
+      }
+    }
+
+    // aimchange: once per frame, only when the reticle moved (> 1 cm) or appeared/disappeared
+    if (marker.visible !== lastAimVisible || (marker.visible && _lastAim.distanceToSquared(aimPoint) > 1e-4)) {
+      lastAimVisible = marker.visible
+      _lastAim.copy(aimPoint)
+      events.emit('aimchange', { point: marker.visible ? toTuple(worldToModel(aimPoint)) : null })
     }
 
-    // smooth move
+    // path preview: route to the aim point while hovering, remaining route while walking
+    if (renderer.xr.isPresenting || !pathfinder || mode !== 'firstPerson') {
+      if (pathPreview.visible) hidePathPreview()
+    } else if (moveTarget) {
+      showPathPreview([rigFloorPos(_tmpV).clone(), moveTarget, ...movePath])
+    } else if (marker.visible) {
+      rigFloorPos(_tmpV)
+      if (_previewAim.distanceTo(aimPoint) > PATH_PREVIEW_EPS || _previewFrom.distanceTo(_tmpV) > PATH_PREVIEW_EPS) {
+        _previewAim.copy(aimPoint); _previewFrom.copy(_tmpV)
+        const route = findNavPath(_tmpV, aimPoint)
+        if (route) showPathPreview([_tmpV.clone(), ...route])
+        else pathPreview.visible = false
+      }
+    } else if (pathPreview.visible) {
+      hidePathPreview()
+    }
+
+    updateLocomotion(dt)
+    if (!camTween) tour.update(dt)
+
+    // smooth move (walks the navmesh route waypoint by waypoint)
     if (moveTarget) {
       _tmpV.copy(moveTarget).sub(rig.position); _tmpV.y = 0
       const dist = _tmpV.length()
       const step = MOVE_SPEED * dt
       const tol = Math.max(0.05, step)
       if (dist <= tol) {
-        rig.position.set(moveTarget.x, 0, moveTarget.z)
-        moveTarget = null
-        standLight.intensity = 1.6
+        rig.position.copy(moveTarget)
+        moveTarget = movePath.shift() ?? null
+        if (!moveTarget) { standLight.intensity = 1.6; hidePathPreview() }
       } else {
         _tmpV.normalize().multiplyScalar(step)
-        rig.position.add(new THREE.Vector3(_tmpV.x, 0, _tmpV.z))
+        const delta = constrainMove(new THREE.Vector3(_tmpV.x, 0, _tmpV.z))
+        if (delta.lengthSq() >= (step * 0.05) ** 2) moveBlocked = 0
+        else if (dist <= collision.radius * 2) {
+          // route corners sit on navmesh polygon corners, often closer to a wall than the body radius: close enough
+          moveTarget = movePath.shift() ?? null
+          moveBlocked = 0
+          if (!moveTarget) { standLight.intensity = 1.6; hidePathPreview() }
+        } else if (++moveBlocked >= MOVE_BLOCKED_FRAMES) {
+          // blocked by a wall: give up rather than pushing into it
+          moveTarget = null; movePath = []
+          hidePathPreview()
+          endWalk()
+        }
+        rig.position.add(delta)
+        // follow the navmesh surface (ramps/stairs) between waypoints
+        const y = navHeightAt(rig.position.x, rig.position.z, rig.position.y)
+        if (y !== null) rig.position.y = y
       }
+      updateCurrentLevel()
     }
+    if (walking && !moveTarget) endWalk()
 
-    // standing indicator: base Y from navmesh lowest level (if available)
+    // standing indicator: base Y from the floor the rig stands on
     {
       const baseY =
         navmeshGroup
-          ? ((navmeshMinY ?? 0) + 0.01)
+          ? (rig.position.y + 0.01)
           : (navFloor ? (navFloor.position.y + 0.01) : 0.01)
 
-      const t = performance.now() * 0.002
+      const t = reducedMotion ? 0 : performance.now() * 0.002
       const s = 0.55 + 0.10 * (0.5 + 0.5 * Math.sin(t))
+      standGlow.visible = !ar.status.active // AR: the rig is the device's start pose, not a floor
       standGlow.position.set(rig.position.x, baseY, rig.position.z)
       standGlow.scale.set(s, s, 1)
       standLight.position.set(rig.position.x, baseY + 0.15, rig.position.z)
@@ -705,26 +2281,47 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
 
     // marker pulse
     if (marker.visible) {
-      const s = 1 + 0.05 * Math.sin(performance.now() * 0.006)
+      const s = reducedMotion ? 1 : 1 + 0.05 * Math.sin(performance.now() * 0.006)
       marker.scale.set(s, 1, s)
     }
 
+    updateFade(dt)
+    updateVignette(dt)
+    lighting.update(dt)
+    multiplayer?.update(dt)
+    analytics?.update(dt)
+
+    // minimap: rig position + view heading (headset direction in XR)
+    if (minimap) {
+      (renderer.xr.isPresenting ? renderer.xr.getCamera() : camera).getWorldDirection(_heading)
+      minimap.update(rig.position.x / currentScale, rig.position.z / currentScale, Math.atan2(-_heading.x, -_heading.z))
+    }
+
     // smooth FOV tween toward target
+    if (targetFov !== lastTargetFov) {
+      lastTargetFov = targetFov
+      events.emit('fovchange', { fov: targetFov, preset: activePreset })
+    }
     {
       const diff = targetFov - camera.fov
       if (Math.abs(diff) > 0.01) {
-        camera.fov += diff * Math.min(1, dt * 8)
-        camera.fov = THREE.MathUtils.clamp(camera.fov, Math.min(FOV_MIN, FOV_MID), FOV_MAX)
+        const prevFov = camera.fov
+        camera.fov += diff * (reducedMotion ? 1 : Math.min(1, dt * 8))
+        camera.fov = THREE.MathUtils.clamp(camera.fov, Math.min(fovMin, FOV_MIN), Math.max(fovMax, FOV_MID))
         camera.updateProjectionMatrix()
+        compensateZoom(prevFov, camera.fov)
       }
     }
 
-    renderer.render(scene, camera)
+    renderer.render(scene, viewCam)
   })
 
   // public API
   function setModelScale(s: number) {
     const k = Math.max(0.001, s)
+    // keep standing on the same floor: navmesh heights scale about the origin (not in AR: the rig is the real room)
+    if (navmeshGroup && !ar.status.active) rig.position.y *= k / currentScale
+    currentScale = k
     world.scale.setScalar(k)
     // keep navmesh aligned with model/world scale
     if (navmeshGroup) {
@@ -732,6 +2329,16 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
       navmeshGroup.updateMatrixWorld(true)
     }
     stickNavFloorToMinY()
+    if (ar.status.active) ar.relayout()
+    measure.relayout()
+    if (mode === 'dollhouse') { updateDollhouseCut(); frameDollhouse() }
+  }
+
+  function resetView() {
+    tour.stop()
+    moveTarget = null; movePath = []
+    placeAtSpawn()
+    if (mode !== 'firstPerson') setModeInternal('firstPerson')
   }
 
   function setEyeHeight(h: number) {
@@ -744,23 +2351,269 @@ export async function initViewer(mount: HTMLElement, cfg: ViewerConfig = {}): Pr
     setFovPresetInternal(deg)
   }
 
+  function setZoomMode(m: ZoomMode) {
+    zoomMode = m
+    zoomAnchor = null
+  }
+
+  // --- view state (deep links)
+  function getViewState(): ViewState {
+    return {
+      position: worldToModel(rig.position).toArray() as Vec3Tuple,
+      yaw: THREE.MathUtils.euclideanModulo(THREE.MathUtils.radToDeg(yaw.rotation.y), 360),
+      pitch: THREE.MathUtils.radToDeg(pitch.rotation.x),
+      fov: targetFov,
+      scale: currentScale,
+      level: currentLevel,
+      mode,
+      background: !!scene.background,
+    }
+  }
+
+  function setViewState(s: Partial<ViewState>): boolean {
+    tour.stop()
+    moveTarget = null; movePath = []
+    hidePathPreview()
+    if (s.scale !== undefined && isFinite(s.scale)) setModelScale(THREE.MathUtils.clamp(s.scale, MODEL_SCALE_MIN, MODEL_SCALE_MAX))
+    if (s.background !== undefined) lighting.setBackground(s.background)
+
+    // the position must stand on the navmesh (any floor); otherwise the level's arrival point, else the spawn
+    let pos: THREE.Vector3 | null = null
+    if (s.position?.every((v) => isFinite(v))) {
+      pos = modelToWorld(s.position)
+      if (navmeshGroup) {
+        const y = navHeightAt(pos.x, pos.z, pos.y)
+        pos = y === null ? null : pos.setY(y)
+      } else pos.y = 0
+      if (!pos) console.warn('[viewer] view position is off the navmesh; falling back')
+    }
+    const ok = !!pos || !s.position
+    if (pos) rig.position.copy(pos)
+    else if (s.level || s.position) {
+      const arrival = s.level ? levelArrival(s.level) : null
+      if (arrival) {
+        rig.position.copy(arrival.pos)
+        if (arrival.yaw !== null) yaw.rotation.y = arrival.yaw
+      } else placeAtSpawn()
+    }
+    if (ok) {
+      if (s.yaw !== undefined && isFinite(s.yaw)) yaw.rotation.y = THREE.MathUtils.degToRad(s.yaw)
+      if (s.pitch !== undefined && isFinite(s.pitch)) pitch.rotation.x = THREE.MathUtils.clamp(THREE.MathUtils.degToRad(s.pitch), -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
+    }
+    if (s.fov !== undefined && isFinite(s.fov)) {
+      if (s.fov === FOV_MIN || s.fov === FOV_MID) setFovPresetInternal(s.fov)
+      else zoomTo(s.fov, null)
+    }
+    updateCurrentLevel()
+    if (s.mode && s.mode !== mode) setModeInternal(s.mode)
+    return ok
+  }
+
+  // --- finishes: glTF material variants + config-defined material slots; in VR, grip while pointing at a part cycles it
+  const finishes = createConfigurator(model ?? new THREE.Group(), modelGltf, cfg.materialSlots, () => {
+    events.emit('variantchange', { variant: finishes.variant, slots: finishes.slots })
+  })
+
+  function cycleFinishAt(rc: THREE.Raycaster) {
+    const hit = model && firstUnclippedHit(rc.intersectObject(model, true))
+    if (hit) void finishes.cycleAt(hit.object)
+  }
+
+  // --- co-presence (optional): avatars of the other participants; followers' rig / view track the presenter
+  const _mpFrameM = new THREE.Matrix4(), _mpFrame = new THREE.Quaternion(), _mpInv = new THREE.Quaternion()
+  const _mpP = new THREE.Vector3(), _mpQ = new THREE.Quaternion(), _mpS = new THREE.Vector3(), _mpDir = new THREE.Vector3()
+  // model file axes -> world (alignment, scale and AR placement)
+  function modelFrame() {
+    world.updateMatrix()
+    _mpFrameM.multiplyMatrices(world.matrix, _modelAppliedXform).decompose(_mpP, _mpFrame, _mpS)
+    return _mpFrame
+  }
+
+  function localPose(): PeerPose {
+    const inv = _mpInv.copy(modelFrame()).invert()
+    const xr = renderer.xr.isPresenting
+    const offset = (o: THREE.Object3D): PoseT => {
+      o.getWorldPosition(_mpP); o.getWorldQuaternion(_mpQ)
+      return { p: toTuple(_mpP.sub(rig.position).applyQuaternion(inv)), q: _mpQ.premultiply(inv).toArray() as QuatT }
+    }
+    return {
+      rig: toTuple(worldToModel(rig.position)),
+      head: offset(xr ? renderer.xr.getCamera() : camera),
+      hands: xr ? [0, 1].map((i) => { const c = renderer.xr.getController(i); return c.userData.source ? offset(c) : null }) : [],
+      xr,
+    }
+  }
+
+  // stand under the presenter's head; on desktop also look where they look (XR keeps the follower's own head)
+  function followPresenter(p: PeerPose, dt: number) {
+    if (mode !== 'firstPerson' || ar.status.active) return
+    tour.stop()
+    moveTarget = null; movePath = []
+    const frame = modelFrame()
+    const target = modelToWorld(p.rig).add(_mpDir.fromArray(p.head.p).applyQuaternion(frame).setY(0))
+    if (renderer.xr.isPresenting) target.sub(renderer.xr.getCamera().getWorldPosition(_mpP).sub(rig.position).setY(0))
+    if (rig.position.distanceTo(target) > FOLLOW_SNAP) rig.position.copy(target)
+    else rig.position.lerp(target, 1 - Math.exp(-FOLLOW_RATE * dt))
+    updateCurrentLevel()
+    if (renderer.xr.isPresenting) return
+    const k = 1 - Math.exp(-FOLLOW_RATE * 2 * dt)
+    _mpDir.set(0, 0, -1).applyQuaternion(_mpQ.fromArray(p.head.q).premultiply(frame))
+    const dYaw = THREE.MathUtils.euclideanModulo(Math.atan2(-_mpDir.x, -_mpDir.z) - yaw.rotation.y + Math.PI, Math.PI * 2) - Math.PI
+    yaw.rotation.y += dYaw * k
+    const targetPitch = THREE.MathUtils.clamp(Math.asin(THREE.MathUtils.clamp(_mpDir.y, -1, 1)), -LOOK_PITCH_LIMIT, LOOK_PITCH_LIMIT)
+    pitch.rotation.x += (targetPitch - pitch.rotation.x) * k
+  }
+
+  const multiplayer = cfg.multiplayer ? createMultiplayer({
+    scene,
+    localPose,
+    follow: followPresenter,
+    toWorld: (p) => modelToWorld(p),
+    frame: modelFrame,
+    onChange: (st) => events.emit('multiplayer', st),
+  }, cfg.multiplayer) : null
+
+  // --- visit analytics (optional): sampled trace + events; overlays live in model file coordinates under `world`
+  const _anP = new THREE.Vector3(), _anDir = new THREE.Vector3(), _anN = new THREE.Vector3()
+  const gazeRay = new THREE.Raycaster()
+  const analyticsRoot = new THREE.Group(); analyticsRoot.name = 'Analytics'
+  analyticsRoot.matrixAutoUpdate = false
+  analyticsRoot.matrix.copy(_modelAppliedXform)
+  world.add(analyticsRoot)
+  const viewCamera = () => renderer.xr.isPresenting ? renderer.xr.getCamera() : camera
+
+  const analytics = cfg.analytics && cfg.analytics.enabled !== false ? createAnalytics({
+    // dollhouse views are not visits: no samples while orbiting
+    sample: () => mode !== 'firstPerson' ? null : {
+      p: toTuple(worldToModel(rig.position)),
+      d: toTuple(viewCamera().getWorldDirection(_anDir).applyQuaternion(_mpInv.copy(modelFrame()).invert())),
+      level: currentLevel,
+      xr: renderer.xr.isPresenting ? (isARSession() ? 'ar' : 'vr') : null,
+    },
+    gaze: () => {
+      if (!model || (ar.status.active && !ar.status.placed)) return null
+      const view = viewCamera()
+      gazeRay.set(view.getWorldPosition(_anP), view.getWorldDirection(_anDir))
+      const hit = firstUnclippedHit(gazeRay.intersectObject(model, true))
+      if (!hit) return null
+      const inv = _mpInv.copy(modelFrame()).invert()
+      const n = hit.face ? _anN.copy(hit.face.normal).transformDirection(hit.object.matrixWorld) : _anN.set(0, 1, 0)
+      if (n.dot(_anDir) > 0) n.negate() // back face (double-sided): the side that was seen
+      return { point: toTuple(worldToModel(hit.point)), normal: toTuple(n.applyQuaternion(inv)), name: hit.object.name || '(unnamed)' }
+    },
+    overlayRoot: analyticsRoot,
+    metersPerUnit: cfg.measure?.metersPerUnit ?? 1,
+    currentLevel: () => currentLevel,
+  }, cfg.analytics) : null
+  if (analytics) {
+    events.on('teleportstart', ({ from, to, smooth }) => analytics.record({ type: 'teleport', from, to, smooth }))
+    events.on('xrsessionstart', ({ mode }) => analytics.record({ type: 'xrstart', mode }))
+    events.on('xrsessionend', () => analytics.record({ type: 'xrend' }))
+  }
+
+  if (cfg.viewState) setViewState(cfg.viewState)
+  refreshMinimapFloor()
+
+  // --- teardown: listeners, page DOM, XR session, GPU resources
+  function dispose() {
+    renderer.setAnimationLoop(null)
+    renderer.xr.getSession()?.end().catch(() => {})
+    listeners.abort()
+    events.clear()
+    vrBtn?.remove(); arBtn?.remove(); ui.remove(); placesBar?.remove()
+    minimap?.canvas.remove()
+    wristMenu.dispose(); hotspotMarkers.dispose(); hotspotPanel.dispose(); measure.dispose(); minimap?.dispose()
+    finishes.dispose()
+    ar.dispose(); arOverlay.remove()
+    multiplayer?.dispose()
+    analytics?.dispose()
+    sectioning.dispose()
+    arcs.forEach((a) => a.dispose()); vignette.dispose()
+    disposeObject(scene)
+    lighting.dispose()
+    loaders.dispose()
+    renderer.dispose()
+    renderer.domElement.remove()
+  }
+
   // FOV UI state init
   _mouseNDC.set(0, 0)
 
-  return {
+  const handle: ViewerHandle = {
     renderer, scene, camera, rig, model, mount,
-    toggleBackground: () => { if (envMap) scene.background = scene.background ? null : envMap },
-    resetView: () => { rig.position.set(0,0,2.5); yaw.rotation.set(0,0,0); pitch.rotation.set(0,0,0) },
+    toggleBackground: () => lighting.setBackground(!lighting.backgroundOn),
+    environments: lighting.presets,
+    get environment() { return lighting.current },
+    setEnvironment: (p, opts) => lighting.set(p, opts?.fade),
+    get exposure() { return lighting.exposure },
+    setExposure: lighting.setExposure,
+    resetView,
     setModelScale,
     setEyeHeight,
     setFovPreset,
+    setZoomMode,
+    levels,
+    get currentLevel() { return currentLevel },
+    goToLevel,
+    get mode() { return mode },
+    setMode: setModeInternal,
+    get hotspots() { return [...hotspots.values()].map((e) => e.data) },
+    addHotspot,
+    removeHotspot,
+    selectHotspot,
+    get tour() { return tour.status },
+    playTour,
+    pauseTour: tour.pause,
+    resumeTour: tour.resume,
+    skipTourStop: tour.skip,
+    stopTour: tour.stop,
+    get measuring() { return measuring },
+    setMeasureMode,
+    get measurements() { return measure.list },
+    addMeasurement: measure.add,
+    removeMeasurement: (id) => { measure.remove(id) },
+    clearMeasurements: measure.clear,
+    setMeasureUnits: measure.setUnits,
+    minimap: minimap?.canvas ?? null,
+    get ar() { return ar.status },
+    setARMode: ar.setMode,
+    resetARPlacement: ar.reset,
+    variants: finishes.variants,
+    get variant() { return finishes.variant },
+    setVariant: finishes.setVariant,
+    get materialSlots() { return finishes.slots },
+    setMaterialOption: finishes.setSlotOption,
+    get multiplayer() { return multiplayer?.status ?? null },
+    setPresenter: (on) => multiplayer?.setPresenter(on),
+    setFollowPresenter: (on) => multiplayer?.setFollow(on),
+    get reducedMotion() { return reducedMotion },
+    setReducedMotion: (on) => {
+      reducedMotionOverride = on
+      reducedMotion = on ?? !!motionQuery?.matches
+    },
+    get analytics() { return analytics?.summary() ?? null },
+    setAnalyticsOverlay: (kind, on) => analytics?.setOverlay(kind, on),
+    exportAnalytics: () => analytics?.exportSession() ?? null,
+    get section() { return sectioning.status },
+    addSectionPlane: sectioning.addPlane,
+    removeSectionPlane: sectioning.removePlane,
+    flipSectionPlane: sectioning.flipPlane,
+    setClipBox: sectioning.setBox,
+    clearSections: sectioning.clear,
+    setSectionCaps: sectioning.setCaps,
+    setSectionGizmos: sectioning.setGizmos,
+    getViewState,
+    setViewState,
+    on: events.on,
+    off: events.off,
+    dispose,
   }
+  events.emit('ready', { levels })
+  return handle
 }
 
 export function disposeViewer(h: ViewerHandle) {
   try {
-    h.renderer.setAnimationLoop(null)
-    h.renderer.dispose()
-    if (h.mount.contains(h.renderer.domElement)) h.mount.removeChild(h.renderer.domElement)
+    h.dispose()
   } catch (e) { console.warn('[viewer] dispose error', e) }
 }
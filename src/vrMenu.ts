@@ -0,0 +1,118 @@
+// src/vrMenu.ts
+import * as THREE from 'three'
+
+// ---- layout (metres)
+const BTN_W = 0.16
+const BTN_H = 0.045
+const BTN_GAP = 0.01
+const TEX_W = 256
+const TEX_H = 72
+
+export type VRMenuItem = {
+  id: string
+  label: string
+  active?: boolean
+  disabled?: boolean  // drawn flat and not selectable (value readouts, headings)
+  width?: number      // share of its row (default 1)
+  onSelect: () => void
+}
+
+// one button per row, or an array of buttons side by side (e.g. a − value + stepper)
+export type VRMenuRow = VRMenuItem | VRMenuItem[]
+
+export type VRMenu = {
+  object: THREE.Group
+  setItems: (rows: VRMenuRow[]) => void
+  intersect: (raycaster: THREE.Raycaster) => VRMenuItem | null
+  setHovered: (item: VRMenuItem | null) => void
+  dispose: () => void
+}
+
+type Button = {
+  item: VRMenuItem
+  mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>
+  ctx: CanvasRenderingContext2D
+  tex: THREE.CanvasTexture
+}
+
+function drawButton(b: Button, hovered: boolean) {
+  const { ctx } = b
+  const w = ctx.canvas.width
+  ctx.clearRect(0, 0, w, TEX_H)
+  if (!b.item.disabled) {
+    ctx.fillStyle = b.item.active ? '#0b1220' : (hovered ? '#111827' : '#1f2937')
+    ctx.strokeStyle = b.item.active ? '#60a5fa' : '#374151'
+    ctx.lineWidth = 6
+    ctx.beginPath(); ctx.roundRect(3, 3, w - 6, TEX_H - 6, 18); ctx.fill(); ctx.stroke()
+  } else {
+    ctx.fillStyle = 'rgba(17,24,39,0.85)'
+    ctx.fillRect(0, 0, w, TEX_H)
+  }
+  ctx.fillStyle = b.item.active ? '#bfdbfe' : '#e5e7eb'
+  ctx.font = '600 30px system-ui, -apple-system, Segoe UI, Inter, Roboto, sans-serif'
+  ctx.textAlign = 'center'; ctx.textBaseline = 'middle'
+  ctx.fillText(b.item.label, w / 2, TEX_H / 2, w - 24)
+  b.tex.needsUpdate = true
+}
+
+// World-space column of buttons (canvas-textured planes) for use with controller rays in XR.
+export function createVRMenu(): VRMenu {
+  const object = new THREE.Group(); object.name = 'VRMenu'
+  const geom = new THREE.PlaneGeometry(BTN_W, BTN_H) // narrower buttons scale it in x
+  let buttons: Button[] = []
+  let hovered: VRMenuItem | null = null
+
+  function clear() {
+    buttons.forEach((b) => { b.tex.dispose(); b.mesh.material.dispose(); object.remove(b.mesh) })
+    buttons = []
+    hovered = null
+  }
+
+  function setItems(rows: VRMenuRow[]) {
+    const prevHovered = hovered?.id
+    clear()
+    rows.forEach((row, i) => {
+      const items = Array.isArray(row) ? row : [row]
+      const total = items.reduce((n, it) => n + (it.width ?? 1), 0)
+      const free = BTN_W - BTN_GAP * (items.length - 1)
+      let x = -BTN_W / 2
+      for (const item of items) {
+        const w = free * (item.width ?? 1) / total
+        const c = document.createElement('canvas'); c.width = Math.round(TEX_W * w / BTN_W); c.height = TEX_H
+        const tex = new THREE.CanvasTexture(c); tex.colorSpace = THREE.SRGBColorSpace
+        const mesh = new THREE.Mesh(geom, new THREE.MeshBasicMaterial({ map: tex, transparent: true, depthTest: false }))
+        mesh.renderOrder = 1001
+        mesh.scale.x = w / BTN_W
+        mesh.position.set(x + w / 2, (rows.length - 1 - i) * (BTN_H + BTN_GAP), 0)
+        x += w + BTN_GAP
+        object.add(mesh)
+        const b: Button = { item, mesh, ctx: c.getContext('2d')!, tex }
+        // rebuilt after every press: keep the button under the ray lit
+        if (item.id === prevHovered && !item.disabled) hovered = item
+        drawButton(b, item === hovered)
+        buttons.push(b)
+      }
+    })
+  }
+
+  function intersect(raycaster: THREE.Raycaster) {
+    if (!object.visible || buttons.length === 0) return null
+    const hit = raycaster.intersectObjects(buttons.filter((b) => !b.item.disabled).map((b) => b.mesh), false)[0]
+    return hit ? (buttons.find((b) => b.mesh === hit.object)?.item ?? null) : null
+  }
+
+  function setHovered(item: VRMenuItem | null) {
+    if (item === hovered) return
+    const prev = hovered
+    hovered = item
+    buttons.forEach((b) => { if (b.item === prev || b.item === item) drawButton(b, b.item === item) })
+  }
+
+  return {
+    object,
+    setItems,
+    intersect,
+    setHovered,
+    dispose: () => { clear(); geom.dispose() },
+  }
+}
@@ -1,13 +1,46 @@
 
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'node:fs'
+import path from 'node:path'
+
+// three's Draco / Basis (KTX2) decoders, served from /decoders/ in dev and copied into the build (no CDN)
+const DECODERS: Record<string, string> = {
+  'draco/': 'node_modules/three/examples/jsm/libs/draco/gltf/',
+  'basis/': 'node_modules/three/examples/jsm/libs/basis/',
+}
+
+function threeDecoders(base = '/decoders/'): Plugin {
+  const files = Object.entries(DECODERS).flatMap(([dir, src]) =>
+    fs.readdirSync(src).filter((f) => /\.(js|wasm)$/.test(f) && !f.includes('encoder')).map((f) => ({ url: `${base}${dir}${f}`, file: path.resolve(src, f) }))
+  )
+  return {
+    name: 'three-decoders',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const hit = files.find((f) => f.url === req.url?.split('?')[0])
+        if (!hit) return next()
+        res.setHeader('Content-Type', hit.file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript')
+        fs.createReadStream(hit.file).pipe(res)
+      })
+    },
+    generateBundle() {
+      for (const f of files) this.emitFile({ type: 'asset', fileName: f.url.slice(1), source: fs.readFileSync(f.file) })
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), threeDecoders()],
   server: {
     headers: {
       'Permissions-Policy': 'xr-spatial-tracking=(self), fullscreen=(self)',
       'X-Content-Type-Options': 'nosniff'
+    },
+    proxy: {
+      // co-presence relay and analytics receiver live in server.mjs (`npm run serve-https` alongside `npm run dev`)
+      '/multiplayer': { target: 'ws://localhost:4443', ws: true },
+      '/analytics': 'http://localhost:4443'
     }
   },
   build: {